@@ -1,7 +1,7 @@
 import { useCallback } from 'react';
 import { useShallow } from 'zustand/shallow';
 import { useStore } from '../../store';
-import { getSnapshotAtTime } from '../../core/doc/raw-doc';
+import { getSnapshotAtTime, getSnapshotLanguage } from '../../core/doc/raw-doc';
 import CodeEditor from '../../view/editor/code-editor';
 import DashboardPanel from '../dashboard/DashboardPanel';
 import styles from './CodeEditorPanel.module.scss';
@@ -21,6 +21,7 @@ export default function CodeEditorPanel({ className }: CodeEditorPanelProps) {
 
   const [currentSnapshotIndex] = getSnapshotAtTime(doc, currentTime);
   const currentSnapshot = doc.snapshots[currentSnapshotIndex];
+  const currentLanguage = getSnapshotLanguage(doc, currentSnapshotIndex);
 
   const handleCodeUpdate = useCallback(
     (code: string) => {
@@ -37,7 +38,7 @@ export default function CodeEditorPanel({ className }: CodeEditorPanelProps) {
   const panelActions = (
     <div className={styles.editorActions}>
       <div className={styles.languageIndicator}>
-        {doc.language.toUpperCase()}
+        {currentLanguage.toUpperCase()}
       </div>
       <div className={styles.snapshotIndicator}>
         Snapshot #{currentSnapshotIndex}
@@ -57,7 +58,7 @@ export default function CodeEditorPanel({ className }: CodeEditorPanelProps) {
       <div className={styles.editorContainer}>
         <CodeEditor
           value={currentSnapshot?.code || ''}
-          language={doc.language}
+          language={currentLanguage}
           onChange={handleCodeUpdate}
           className={styles.codeEditor}
         />
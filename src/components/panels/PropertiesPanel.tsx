@@ -1,7 +1,21 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useShallow } from 'zustand/shallow';
 import { useStore } from '../../store';
-import { getSnapshotAtTime } from '../../core/doc/raw-doc';
+import { type CameraKeyframe, getSnapshotAtTime } from '../../core/doc/raw-doc';
+import { MAX_CAMERA_ZOOM, MIN_CAMERA_ZOOM } from '../../core/renderer/camera';
+import {
+  DEFAULT_DIM_OPACITY,
+  formatLineSpans,
+  parseLineSpans,
+} from '../../core/renderer/highlight';
+import { type Callout, CalloutType } from '../../core/doc/callout';
+import {
+  FONT_FILE_EXTENSIONS,
+  loadDocFont,
+  readFontFile,
+} from '../../core/renderer/font';
+import { DEFAULT_TOKENIZER, TOKENIZERS } from '../../core/tokenize/index';
+import { LANGUAGES } from '../../core/code-languages/languages';
 import DashboardPanel from '../dashboard/DashboardPanel';
 import AnimationPropertyPanel from './AnimationPropertyPanel';
 import VisualEffectsPanel from './VisualEffectsPanel';
@@ -26,6 +40,8 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
   const [activeSection, setActiveSection] = useState<
     'document' | 'snapshot' | 'animation' | 'effects'
   >('document');
+  const [fontError, setFontError] = useState<string | null>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
 
   const handleDocPropertyChange = useCallback(
     (property: string, value: any) => {
@@ -34,6 +50,27 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
     [updateDocProperties],
   );
 
+  const handleFontFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const font = await readFontFile(file);
+        // Only keep fonts the renderer is able to load
+        await loadDocFont(font);
+        handleDocPropertyChange('font', font);
+        setFontError(null);
+      } catch (error) {
+        setFontError(
+          error instanceof Error ? error.message : 'Font upload failed',
+        );
+      }
+    },
+    [handleDocPropertyChange],
+  );
+
   const handleSnapshotPropertyChange = useCallback(
     (property: string, value: any) => {
       if (currentSnapshot) {
@@ -46,6 +83,35 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
     [currentSnapshot, currentSnapshotIndex, updateSnapshot],
   );
 
+  const handleCameraChange = useCallback(
+    (updates: Partial<CameraKeyframe>) => {
+      if (!currentSnapshot) return;
+      const camera = { ...currentSnapshot.camera, ...updates };
+      const isEmpty = Object.values(camera).every((value) => value == null);
+      handleSnapshotPropertyChange('camera', isEmpty ? undefined : camera);
+    },
+    [currentSnapshot, handleSnapshotPropertyChange],
+  );
+
+  const handleCalloutsChange = useCallback(
+    (callouts: Callout[]) => {
+      handleSnapshotPropertyChange(
+        'callouts',
+        callouts.length ? callouts : undefined,
+      );
+    },
+    [handleSnapshotPropertyChange],
+  );
+
+  const handleCalloutChange = useCallback(
+    (index: number, updates: Partial<Callout>) => {
+      const callouts = [...(currentSnapshot?.callouts ?? [])];
+      callouts[index] = { ...callouts[index], ...updates };
+      handleCalloutsChange(callouts);
+    },
+    [currentSnapshot, handleCalloutsChange],
+  );
+
   const panelActions = (
     <div className={styles.propertiesActions}>
       <div className={styles.sectionButtons}>
@@ -169,6 +235,96 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
                 />
                 <span className={styles.unit}>px</span>
               </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Line Numbers:</label>
+                <input
+                  type="checkbox"
+                  checked={!!doc.lineNumbers}
+                  onChange={(e) =>
+                    handleDocPropertyChange('lineNumbers', e.target.checked)
+                  }
+                />
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Word Wrap:</label>
+                <input
+                  type="checkbox"
+                  checked={!!doc.wordWrap}
+                  onChange={(e) =>
+                    handleDocPropertyChange('wordWrap', e.target.checked)
+                  }
+                />
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Font:</label>
+                <button
+                  type="button"
+                  className={styles.sectionButton}
+                  title="Upload a WOFF2 or TTF font"
+                  onClick={() => fontInputRef.current?.click()}
+                >
+                  {doc.font?.family ?? 'Theme Font'}
+                </button>
+                {doc.font && (
+                  <button
+                    type="button"
+                    className={styles.sectionButton}
+                    title="Use the font of the theme"
+                    onClick={() => handleDocPropertyChange('font', undefined)}
+                  >
+                    ×
+                  </button>
+                )}
+                <input
+                  ref={fontInputRef}
+                  type="file"
+                  accept={FONT_FILE_EXTENSIONS.join(',')}
+                  onChange={handleFontFileChange}
+                  style={{ display: 'none' }}
+                />
+              </div>
+              {fontError && <div className={styles.infoRow}>{fontError}</div>}
+            </div>
+
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Syntax</h4>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Language:</label>
+                <select
+                  className={styles.selectInput}
+                  value={doc.language}
+                  onChange={(e) =>
+                    handleDocPropertyChange('language', e.target.value)
+                  }
+                >
+                  {LANGUAGES.map((language) => (
+                    <option key={language.id} value={language.id}>
+                      {language.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Tokenizer:</label>
+                <select
+                  className={styles.selectInput}
+                  value={doc.tokenizer ?? DEFAULT_TOKENIZER}
+                  onChange={(e) =>
+                    handleDocPropertyChange('tokenizer', e.target.value)
+                  }
+                >
+                  {TOKENIZERS.map((tokenizer) => (
+                    <option key={tokenizer.id} value={tokenizer.id}>
+                      {tokenizer.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div className={styles.propertyGroup}>
@@ -278,6 +434,265 @@ export default function PropertiesPanel({ className }: PropertiesPanelProps) {
               </div>
             </div>
 
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Camera</h4>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Scroll to Line:</label>
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  value={currentSnapshot.scrollToLine ?? ''}
+                  placeholder="Auto"
+                  min="1"
+                  max={currentSnapshot.code.split('\n').length}
+                  step="1"
+                  onChange={(e) =>
+                    handleSnapshotPropertyChange(
+                      'scrollToLine',
+                      e.target.value ? parseInt(e.target.value) : undefined,
+                    )
+                  }
+                />
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Focus Lines:</label>
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  value={currentSnapshot.camera?.focus?.startLine ?? ''}
+                  placeholder="Start"
+                  min="1"
+                  step="1"
+                  onChange={(e) => {
+                    const startLine = parseInt(e.target.value);
+                    handleCameraChange({
+                      focus: startLine
+                        ? {
+                            ...currentSnapshot.camera?.focus,
+                            startLine,
+                            endLine: Math.max(
+                              startLine,
+                              currentSnapshot.camera?.focus?.endLine ??
+                                startLine,
+                            ),
+                          }
+                        : undefined,
+                    });
+                  }}
+                />
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  value={currentSnapshot.camera?.focus?.endLine ?? ''}
+                  placeholder="End"
+                  min={currentSnapshot.camera?.focus?.startLine ?? 1}
+                  step="1"
+                  disabled={!currentSnapshot.camera?.focus}
+                  onChange={(e) => {
+                    const { focus } = currentSnapshot.camera ?? {};
+                    if (!focus) return;
+                    handleCameraChange({
+                      focus: {
+                        ...focus,
+                        endLine: Math.max(
+                          focus.startLine,
+                          parseInt(e.target.value) || focus.startLine,
+                        ),
+                      },
+                    });
+                  }}
+                />
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Zoom:</label>
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  value={currentSnapshot.camera?.zoom ?? ''}
+                  placeholder={currentSnapshot.camera?.focus ? 'Fit' : '1'}
+                  min={MIN_CAMERA_ZOOM}
+                  max={MAX_CAMERA_ZOOM}
+                  step="0.25"
+                  onChange={(e) =>
+                    handleCameraChange({
+                      zoom: parseFloat(e.target.value) || undefined,
+                    })
+                  }
+                />
+                <span className={styles.unit}>×</span>
+              </div>
+            </div>
+
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Highlight</h4>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Lines:</label>
+                <input
+                  key={currentSnapshot.id}
+                  type="text"
+                  className={`${styles.numberInput} ${styles.textInput}`}
+                  defaultValue={formatLineSpans(currentSnapshot.highlights)}
+                  placeholder="e.g. 3-5, 8"
+                  onBlur={(e) => {
+                    const highlights = parseLineSpans(e.target.value);
+                    e.target.value = formatLineSpans(highlights);
+                    handleSnapshotPropertyChange(
+                      'highlights',
+                      highlights.length ? highlights : undefined,
+                    );
+                  }}
+                />
+              </div>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Dim Opacity:</label>
+                <input
+                  type="number"
+                  className={styles.numberInput}
+                  value={currentSnapshot.dimOpacity ?? DEFAULT_DIM_OPACITY}
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  disabled={!currentSnapshot.highlights?.length}
+                  onChange={(e) =>
+                    handleSnapshotPropertyChange(
+                      'dimOpacity',
+                      e.target.value ? parseFloat(e.target.value) : undefined,
+                    )
+                  }
+                />
+              </div>
+            </div>
+
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Folding</h4>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Collapse:</label>
+                <input
+                  key={currentSnapshot.id}
+                  type="text"
+                  className={`${styles.numberInput} ${styles.textInput}`}
+                  defaultValue={formatLineSpans(currentSnapshot.collapsed)}
+                  placeholder="e.g. 10-40"
+                  onBlur={(e) => {
+                    const collapsed = parseLineSpans(e.target.value);
+                    e.target.value = formatLineSpans(collapsed);
+                    handleSnapshotPropertyChange(
+                      'collapsed',
+                      collapsed.length ? collapsed : undefined,
+                    );
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Callouts</h4>
+
+              {currentSnapshot.callouts?.map((callout, index) => (
+                <div key={callout.id} className={styles.calloutRow}>
+                  <select
+                    className={styles.selectInput}
+                    value={callout.type}
+                    onChange={(e) =>
+                      handleCalloutChange(index, {
+                        type: e.target.value as CalloutType,
+                      })
+                    }
+                  >
+                    <option value={CalloutType.BUBBLE}>Bubble</option>
+                    <option value={CalloutType.ARROW}>Arrow</option>
+                    <option value={CalloutType.SQUIGGLE}>Squiggle</option>
+                  </select>
+                  <input
+                    type="text"
+                    className={styles.numberInput}
+                    defaultValue={formatLineSpans([callout.anchor])}
+                    title="Lines"
+                    placeholder="Lines"
+                    onBlur={(e) => {
+                      const [range] = parseLineSpans(e.target.value);
+                      e.target.value = formatLineSpans([
+                        range ?? callout.anchor,
+                      ]);
+                      if (range) {
+                        handleCalloutChange(index, { anchor: range });
+                      }
+                    }}
+                  />
+                  <input
+                    type="text"
+                    className={`${styles.numberInput} ${styles.calloutText}`}
+                    value={callout.text}
+                    placeholder="Text"
+                    onChange={(e) =>
+                      handleCalloutChange(index, { text: e.target.value })
+                    }
+                  />
+                  <button
+                    type="button"
+                    className={styles.sectionButton}
+                    title="Remove callout"
+                    onClick={() =>
+                      handleCalloutsChange(
+                        currentSnapshot.callouts!.filter((_, i) => i !== index),
+                      )
+                    }
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+
+              <button
+                type="button"
+                className={styles.sectionButton}
+                onClick={() =>
+                  handleCalloutsChange([
+                    ...(currentSnapshot.callouts ?? []),
+                    {
+                      id: String(Date.now()),
+                      type: CalloutType.BUBBLE,
+                      text: '',
+                      anchor: { startLine: 1, endLine: 1 },
+                    },
+                  ])
+                }
+              >
+                Add Callout
+              </button>
+            </div>
+
+            <div className={styles.propertyGroup}>
+              <h4 className={styles.groupTitle}>Syntax</h4>
+
+              <div className={styles.propertyRow}>
+                <label className={styles.propertyLabel}>Language:</label>
+                <select
+                  className={styles.selectInput}
+                  value={currentSnapshot.language ?? ''}
+                  onChange={(e) =>
+                    handleSnapshotPropertyChange(
+                      'language',
+                      e.target.value || undefined,
+                    )
+                  }
+                >
+                  <option value="">Document Default</option>
+                  {LANGUAGES.map((language) => (
+                    <option key={language.id} value={language.id}>
+                      {language.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             <div className={styles.propertyGroup}>
               <h4 className={styles.groupTitle}>Code Info</h4>
 
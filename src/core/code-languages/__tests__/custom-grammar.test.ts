@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import Prism from 'prismjs';
+import {
+  compileTextMateGrammar,
+  createCustomGrammar,
+  getTextMateScopeType,
+  registerCustomGrammar,
+} from '../custom-grammar';
+import { getLanguage, registerLanguage } from '../languages';
+import {
+  getTokenizer,
+  memoizedParseCodeToFormattedTokens,
+} from '../../tokenize/index';
+
+vi.unmock('../languages');
+
+function getTokenTypes(code: string, grammar: Prism.Grammar) {
+  registerLanguage({ id: 'test-grammar', name: 'Test Grammar', grammar });
+
+  return getTokenizer('prism')
+    .tokenize(code, 'test-grammar')
+    .filter(({ types }) => types.length)
+    .map(({ types, value }) => [types.join(' '), value]);
+}
+
+describe('custom grammar', () => {
+  it('should compile a Prism grammar written in JSON', () => {
+    const grammar = createCustomGrammar(
+      JSON.stringify({
+        comment: '#.*',
+        keyword: '/\\b(?:STEP|RUN)\\b/i',
+        string: { pattern: '"[^"]*"', greedy: true },
+      }),
+      'Pipeline DSL',
+    );
+
+    expect(grammar).toMatchObject({ id: 'pipeline-dsl', format: 'prism' });
+
+    registerCustomGrammar(grammar);
+    const types = getTokenTypes(
+      'step "build" # go',
+      getLanguage('pipeline-dsl').grammar,
+    );
+
+    expect(types).toEqual([
+      ['keyword', 'step'],
+      ['string', '"build"'],
+      ['comment', '# go'],
+    ]);
+  });
+
+  it('should compile the single regex rules of a TextMate grammar', () => {
+    const grammar = compileTextMateGrammar({
+      scopeName: 'source.dsl',
+      patterns: [{ include: '#comments' }, { include: '#keywords' }],
+      repository: {
+        comments: { name: 'comment.block.dsl', begin: '/\\*', end: '\\*/' },
+        keywords: {
+          patterns: [
+            { name: 'keyword.control.dsl', match: '(?i)\\b(?:when|then)\\b' },
+            { name: 'constant.numeric.dsl', match: '\\b\\d+\\b' },
+          ],
+        },
+      },
+    });
+
+    expect(getTokenTypes('WHEN 42 /* a\nb */ then', grammar)).toEqual([
+      ['keyword', 'WHEN'],
+      ['number', '42'],
+      ['comment', '/* a\nb */'],
+      ['keyword', 'then'],
+    ]);
+  });
+
+  it('should try TextMate rules in order of appearance', () => {
+    const grammar = compileTextMateGrammar({
+      scopeName: 'source.dsl',
+      patterns: [
+        { name: 'keyword.control.dsl', match: '\\bwhen\\b' },
+        { name: 'variable.other.dsl', match: '\\b[a-z]+\\b' },
+        { name: 'keyword.control.dsl', match: '\\bthen\\b' },
+      ],
+    });
+
+    expect(getTokenTypes('when then', grammar)).toEqual([
+      ['keyword', 'when'],
+      ['variable', 'then'],
+    ]);
+  });
+
+  it('should tokenize code again once its grammar is imported', () => {
+    const importGrammar = (keyword: string) =>
+      registerCustomGrammar(
+        createCustomGrammar(JSON.stringify({ keyword }), 'Memo DSL'),
+      );
+    const getKeywords = () =>
+      memoizedParseCodeToFormattedTokens('step run', 'memo-dsl')
+        .filter(({ types }) => types.includes('keyword'))
+        .map(({ value }) => value);
+
+    expect(getKeywords()).toEqual([]);
+
+    importGrammar('\\bstep\\b');
+    expect(getKeywords()).toEqual(['step']);
+
+    importGrammar('\\brun\\b');
+    expect(getKeywords()).toEqual(['run']);
+  });
+
+  it('should map TextMate scopes to Prism types', () => {
+    expect(getTextMateScopeType('entity.name.function.dsl')).toBe('function');
+    expect(getTextMateScopeType('keyword.operator.dsl')).toBe('operator');
+    expect(getTextMateScopeType('markup.underline.link')).toBe('markup');
+  });
+
+  it('should detect TextMate grammars and use their name', () => {
+    const grammar = createCustomGrammar(
+      JSON.stringify({
+        name: 'Rules',
+        scopeName: 'source.rules',
+        patterns: [],
+      }),
+      'file',
+    );
+
+    expect(grammar).toMatchObject({ id: 'rules', format: 'textmate' });
+  });
+
+  it('should reject invalid grammars', () => {
+    expect(() => createCustomGrammar('{', 'DSL')).toThrow(
+      'Invalid grammar JSON',
+    );
+    expect(() => createCustomGrammar('[]', 'DSL')).toThrow(
+      'expected a JSON object',
+    );
+    expect(() => createCustomGrammar('{"keyword": "("}', 'DSL')).toThrow();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  Language,
+  getLanguage,
+  getSyntaxParser,
+  isRegisteredLanguage,
+  registerLanguage,
+} from '../languages';
+
+vi.unmock('../languages');
+
+describe('languages', () => {
+  it('should register every built-in language with a Prism grammar', () => {
+    for (const id of Object.values(Language)) {
+      expect(isRegisteredLanguage(id)).toBe(true);
+      expect(getLanguage(id).grammar).toBeTypeOf('object');
+    }
+  });
+
+  it('should pair languages with an editor language', () => {
+    expect(getLanguage(Language.go).editorLanguage).toBeDefined();
+    expect(getLanguage(Language.kotlin).editorLanguage).toBeDefined();
+    expect(getSyntaxParser(Language.go)).toBeDefined();
+    expect(getSyntaxParser(Language.text)).toBeUndefined();
+  });
+
+  it('should fall back to plain text for unknown languages', () => {
+    expect(getLanguage('unknown').id).toBe(DEFAULT_LANGUAGE);
+  });
+
+  it('should register languages at runtime', () => {
+    const count = LANGUAGES.length;
+
+    registerLanguage({ id: 'elixir', name: 'Elixir', grammar: {} });
+    registerLanguage({ id: 'elixir', name: 'Elixir (custom)', grammar: {} });
+
+    expect(LANGUAGES).toHaveLength(count + 1);
+    expect(getLanguage('elixir').name).toBe('Elixir (custom)');
+  });
+});
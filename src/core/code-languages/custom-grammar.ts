@@ -0,0 +1,296 @@
+import { type Grammar, type GrammarValue, type TokenObject } from 'prismjs';
+import { registerLanguage } from './languages';
+
+export type CustomGrammarFormat = 'prism' | 'textmate';
+
+/**
+ * A grammar imported by the user, stored with the project as its JSON source
+ * and compiled to a Prism grammar when registered
+ */
+export interface CustomGrammar {
+  id: string;
+  name: string;
+  format: CustomGrammarFormat;
+  source: string;
+}
+
+/**
+ * Prism grammar in JSON, regexes are written as their source or as `/source/flags`
+ */
+type JSONGrammarToken =
+  | string
+  | {
+      pattern: string;
+      flags?: string;
+      lookbehind?: boolean;
+      greedy?: boolean;
+      alias?: string | string[];
+      inside?: Record<string, JSONGrammarValue>;
+    };
+type JSONGrammarValue = JSONGrammarToken | JSONGrammarToken[];
+
+interface TextMateRule {
+  name?: string;
+  contentName?: string;
+  match?: string;
+  begin?: string;
+  end?: string;
+  include?: string;
+  patterns?: TextMateRule[];
+}
+
+interface TextMateGrammar {
+  name?: string;
+  scopeName?: string;
+  patterns: TextMateRule[];
+  repository?: Record<string, TextMateRule>;
+}
+
+/**
+ * TextMate scopes mapped to Prism types, the first matching prefix wins
+ */
+const textMateScopeTypes: [scope: string, type: string][] = [
+  ['comment', 'comment'],
+  ['string.regexp', 'regex'],
+  ['string', 'string'],
+  ['constant.numeric', 'number'],
+  ['constant.language.boolean', 'boolean'],
+  ['constant.character.escape', 'entity'],
+  ['constant', 'constant'],
+  ['keyword.operator', 'operator'],
+  ['keyword', 'keyword'],
+  ['storage', 'keyword'],
+  ['entity.name.function', 'function'],
+  ['support.function', 'function'],
+  ['entity.name.type', 'class-name'],
+  ['entity.name.class', 'class-name'],
+  ['support.type', 'class-name'],
+  ['support.class', 'class-name'],
+  ['entity.name.tag', 'tag'],
+  ['entity.other.attribute-name', 'attr-name'],
+  ['variable', 'variable'],
+  ['punctuation', 'punctuation'],
+  ['markup.bold', 'bold'],
+  ['markup.italic', 'italic'],
+  ['markup.heading', 'important'],
+  ['markup.inserted', 'inserted'],
+  ['markup.deleted', 'deleted'],
+];
+
+export function getTextMateScopeType(scope: string) {
+  const [firstScope] = scope.trim().split(/\s+/);
+  const matched = textMateScopeTypes.find(
+    ([prefix]) => firstScope === prefix || firstScope.startsWith(`${prefix}.`),
+  );
+
+  return matched?.[1] ?? firstScope.split('.')[0];
+}
+
+function createRegExp(source: string, flags = '') {
+  const literal = /^\/([\s\S]+)\/([a-z]*)$/.exec(source);
+  if (literal) {
+    return new RegExp(literal[1], literal[2]);
+  }
+  return new RegExp(source, flags);
+}
+
+function compileJSONToken(token: JSONGrammarToken): RegExp | TokenObject {
+  if (typeof token === 'string') {
+    return createRegExp(token);
+  }
+
+  return {
+    pattern: createRegExp(token.pattern, token.flags),
+    lookbehind: token.lookbehind,
+    greedy: token.greedy,
+    alias: token.alias,
+    inside: token.inside && compilePrismGrammar(token.inside),
+  };
+}
+
+/**
+ * Compile a Prism grammar written in JSON
+ * @param data
+ * @returns
+ */
+export function compilePrismGrammar(
+  data: Record<string, JSONGrammarValue>,
+): Grammar {
+  const grammar: Record<string, GrammarValue> = {};
+
+  for (const [type, value] of Object.entries(data)) {
+    grammar[type] = Array.isArray(value)
+      ? value.map(compileJSONToken)
+      : compileJSONToken(value);
+  }
+
+  return grammar;
+}
+
+/**
+ * Convert an Oniguruma regex of TextMate to a JS one,
+ * returns `null` for the features JS doesn't have
+ */
+function createTextMateRegExp(source: string) {
+  let flags = '';
+  let converted = source
+    .replace(/\\h/g, '[0-9a-fA-F]')
+    .replace(/\\A/g, '^')
+    .replace(/\\[zZ]/g, '$');
+
+  if (converted.startsWith('(?i)')) {
+    flags = 'i';
+    converted = converted.slice(4);
+  }
+
+  try {
+    return new RegExp(converted, flags);
+  } catch {
+    return null;
+  }
+}
+
+function resolveTextMateRules(
+  rules: TextMateRule[],
+  repository: Record<string, TextMateRule>,
+  visited: Set<string>,
+): TextMateRule[] {
+  return rules.flatMap((rule) => {
+    if (rule.include) {
+      const key = rule.include.slice(1);
+      // `$self`, `$base` and other grammars can't be included in a flat Prism grammar
+      if (!rule.include.startsWith('#') || visited.has(key)) return [];
+
+      const included = repository[key];
+      if (!included) return [];
+
+      return resolveTextMateRules(
+        [included],
+        repository,
+        new Set(visited).add(key),
+      );
+    }
+
+    if (!rule.match && !rule.begin && rule.patterns) {
+      return resolveTextMateRules(rule.patterns, repository, visited);
+    }
+
+    return [rule];
+  });
+}
+
+function getTextMateRulePattern(rule: TextMateRule) {
+  if (rule.match) {
+    return createTextMateRegExp(rule.match);
+  }
+
+  // Back references to `begin` in `end` can't be expressed in one regex
+  if (rule.begin && rule.end && !/\\\d/.test(rule.end)) {
+    return createTextMateRegExp(`(?:${rule.begin})[\\s\\S]*?(?:${rule.end})`);
+  }
+
+  return null;
+}
+
+/**
+ * Compile the single-regex rules of a TextMate grammar to a Prism grammar,
+ * rules in order of appearance so the first matching rule still wins.
+ * Prism tries the keys in order, every rule gets its own `type#index` key
+ * @param data
+ * @returns
+ */
+export function compileTextMateGrammar(data: TextMateGrammar): Grammar {
+  const grammar: Record<string, TokenObject> = {};
+  const rules = resolveTextMateRules(
+    data.patterns,
+    data.repository ?? {},
+    new Set(),
+  );
+
+  rules.forEach((rule, index) => {
+    const scope = rule.name ?? rule.contentName;
+    const pattern = getTextMateRulePattern(rule);
+    if (!scope || !pattern) return;
+
+    const type = getTextMateScopeType(scope);
+    grammar[`${type}#${index}`] = { pattern, greedy: Boolean(rule.begin) };
+  });
+
+  return grammar;
+}
+
+function isTextMateGrammar(data: object): data is TextMateGrammar {
+  return 'scopeName' in data || Array.isArray(Reflect.get(data, 'patterns'));
+}
+
+function getGrammarId(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Create a custom grammar from the content of an imported JSON file
+ * @param content The JSON content
+ * @param fallbackName Used when the grammar has no name, e.g. the file name
+ * @returns
+ */
+export function createCustomGrammar(
+  content: string,
+  fallbackName: string,
+): CustomGrammar {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid grammar JSON: ${error instanceof Error ? error.message : 'Parse error'}`,
+    );
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid grammar: expected a JSON object');
+  }
+
+  const format: CustomGrammarFormat = isTextMateGrammar(data)
+    ? 'textmate'
+    : 'prism';
+  const name =
+    (format === 'textmate' && (data as TextMateGrammar).name) || fallbackName;
+  const grammar: CustomGrammar = {
+    id: getGrammarId(name),
+    name,
+    format,
+    source: content,
+  };
+
+  if (!grammar.id) {
+    throw new Error('Invalid grammar: a name is required');
+  }
+
+  // Compile once so broken grammars are rejected on import
+  compileCustomGrammar(grammar);
+
+  return grammar;
+}
+
+export function compileCustomGrammar(grammar: CustomGrammar): Grammar {
+  const data = JSON.parse(grammar.source);
+
+  return grammar.format === 'textmate'
+    ? compileTextMateGrammar(data)
+    : compilePrismGrammar(data);
+}
+
+/**
+ * Register a custom grammar as a language, so snapshots in it get highlighted
+ */
+export function registerCustomGrammar(grammar: CustomGrammar) {
+  registerLanguage({
+    id: grammar.id,
+    name: grammar.name,
+    grammar: compileCustomGrammar(grammar),
+  });
+}
@@ -1,4 +1,4 @@
-import 'prismjs';
+import Prism, { type Grammar } from 'prismjs';
 import 'prismjs/components/prism-typescript';
 import 'prismjs/components/prism-javascript';
 import 'prismjs/components/prism-jsx';
@@ -6,13 +6,28 @@ import 'prismjs/components/prism-tsx';
 import 'prismjs/components/prism-css';
 import 'prismjs/components/prism-xml-doc';
 import 'prismjs/components/prism-markup';
+import 'prismjs/components/prism-markup-templating';
 import 'prismjs/components/prism-python';
 import 'prismjs/components/prism-rust';
 import 'prismjs/components/prism-sql';
 import 'prismjs/components/prism-c';
 import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-php';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-bash';
 import 'prismjs/components/prism-json';
 import 'prismjs/components/prism-json5';
+import 'prismjs/components/prism-yaml';
+import 'prismjs/components/prism-toml';
+import 'prismjs/components/prism-markdown';
+import 'prismjs/components/prism-docker';
+import 'prismjs/components/prism-graphql';
+import 'prismjs/components/prism-diff';
 import { json } from '@codemirror/lang-json';
 import { css } from '@codemirror/lang-css';
 import { html } from '@codemirror/lang-html';
@@ -22,48 +37,288 @@ import { cpp } from '@codemirror/lang-cpp';
 import { sql } from '@codemirror/lang-sql';
 import { python } from '@codemirror/lang-python';
 import { javascript } from '@codemirror/lang-javascript';
-import { type LanguageSupport } from '@codemirror/language';
+import { go } from '@codemirror/lang-go';
+import { java } from '@codemirror/lang-java';
+import { php } from '@codemirror/lang-php';
+import { yaml } from '@codemirror/lang-yaml';
+import { markdown } from '@codemirror/lang-markdown';
+import { csharp, kotlin } from '@codemirror/legacy-modes/mode/clike';
+import { swift } from '@codemirror/legacy-modes/mode/swift';
+import { ruby } from '@codemirror/legacy-modes/mode/ruby';
+import { shell } from '@codemirror/legacy-modes/mode/shell';
+import { toml } from '@codemirror/legacy-modes/mode/toml';
+import { dockerFile } from '@codemirror/legacy-modes/mode/dockerfile';
+import { diff } from '@codemirror/legacy-modes/mode/diff';
+import {
+  LanguageSupport,
+  StreamLanguage,
+  type StreamParser,
+} from '@codemirror/language';
+import { clearMemoizedTokens } from '../tokenize/index';
 
 /**
- * Language names should be consistent with the names of Prism.js.
+ * Built-in languages, names should be consistent with the names of Prism.js.
  */
 export enum Language {
-  // text = '',
+  text = 'text',
+  bash = 'bash',
   cpp = 'cpp',
+  csharp = 'csharp',
   css = 'css',
+  diff = 'diff',
+  docker = 'docker',
+  go = 'go',
+  graphql = 'graphql',
   html = 'html',
+  java = 'java',
   javascript = 'javascript',
   jsx = 'jsx',
-  typescript = 'typescript',
-  tsx = 'tsx',
   json = 'json',
+  kotlin = 'kotlin',
+  markdown = 'markdown',
+  php = 'php',
   python = 'python',
+  ruby = 'ruby',
   rust = 'rust',
   sql = 'sql',
+  swift = 'swift',
+  toml = 'toml',
+  typescript = 'typescript',
+  tsx = 'tsx',
   xml = 'xml',
+  yaml = 'yaml',
+}
+
+/**
+ * A built-in language, or any language registered at runtime
+ */
+export type LanguageId = Language | (string & {});
+
+export interface LanguageDefinition {
+  id: LanguageId;
+  name: string;
+  /**
+   * The grammar used by the Prism tokenizer
+   */
+  grammar: Grammar;
+  /**
+   * The language used by the code editor and the Lezer tokenizer,
+   * the code is treated as plain text there when it is missing
+   */
+  editorLanguage?: LanguageSupport;
+}
+
+function legacyLanguage(parser: StreamParser<unknown>) {
+  return new LanguageSupport(StreamLanguage.define(parser));
+}
+
+export const DEFAULT_LANGUAGE = Language.text;
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: Language.text,
+    name: 'Plain Text',
+    grammar: {},
+  },
+  {
+    id: Language.bash,
+    name: 'Bash',
+    grammar: Prism.languages.bash,
+    editorLanguage: legacyLanguage(shell),
+  },
+  {
+    id: Language.cpp,
+    name: 'C++',
+    grammar: Prism.languages.cpp,
+    editorLanguage: cpp(),
+  },
+  {
+    id: Language.csharp,
+    name: 'C#',
+    grammar: Prism.languages.csharp,
+    editorLanguage: legacyLanguage(csharp),
+  },
+  {
+    id: Language.css,
+    name: 'CSS',
+    grammar: Prism.languages.css,
+    editorLanguage: css(),
+  },
+  {
+    id: Language.diff,
+    name: 'Diff',
+    grammar: Prism.languages.diff,
+    editorLanguage: legacyLanguage(diff),
+  },
+  {
+    id: Language.docker,
+    name: 'Dockerfile',
+    grammar: Prism.languages.docker,
+    editorLanguage: legacyLanguage(dockerFile),
+  },
+  {
+    id: Language.go,
+    name: 'Go',
+    grammar: Prism.languages.go,
+    editorLanguage: go(),
+  },
+  {
+    // CodeMirror has no GraphQL support, it is edited as plain text
+    id: Language.graphql,
+    name: 'GraphQL',
+    grammar: Prism.languages.graphql,
+  },
+  {
+    id: Language.html,
+    name: 'HTML',
+    grammar: Prism.languages.html,
+    editorLanguage: html(),
+  },
+  {
+    id: Language.java,
+    name: 'Java',
+    grammar: Prism.languages.java,
+    editorLanguage: java(),
+  },
+  {
+    id: Language.javascript,
+    name: 'JavaScript',
+    grammar: Prism.languages.javascript,
+    editorLanguage: javascript(),
+  },
+  {
+    id: Language.jsx,
+    name: 'JSX',
+    grammar: Prism.languages.jsx,
+    editorLanguage: javascript({
+      jsx: true,
+      typescript: false,
+    }),
+  },
+  {
+    id: Language.json,
+    name: 'JSON',
+    grammar: Prism.languages.json,
+    editorLanguage: json(),
+  },
+  {
+    id: Language.kotlin,
+    name: 'Kotlin',
+    grammar: Prism.languages.kotlin,
+    editorLanguage: legacyLanguage(kotlin),
+  },
+  {
+    id: Language.markdown,
+    name: 'Markdown',
+    grammar: Prism.languages.markdown,
+    editorLanguage: markdown(),
+  },
+  {
+    id: Language.php,
+    name: 'PHP',
+    grammar: Prism.languages.php,
+    editorLanguage: php(),
+  },
+  {
+    id: Language.python,
+    name: 'Python',
+    grammar: Prism.languages.python,
+    editorLanguage: python(),
+  },
+  {
+    id: Language.ruby,
+    name: 'Ruby',
+    grammar: Prism.languages.ruby,
+    editorLanguage: legacyLanguage(ruby),
+  },
+  {
+    id: Language.rust,
+    name: 'Rust',
+    grammar: Prism.languages.rust,
+    editorLanguage: rust(),
+  },
+  {
+    id: Language.sql,
+    name: 'SQL',
+    grammar: Prism.languages.sql,
+    editorLanguage: sql(),
+  },
+  {
+    id: Language.swift,
+    name: 'Swift',
+    grammar: Prism.languages.swift,
+    editorLanguage: legacyLanguage(swift),
+  },
+  {
+    id: Language.toml,
+    name: 'TOML',
+    grammar: Prism.languages.toml,
+    editorLanguage: legacyLanguage(toml),
+  },
+  {
+    id: Language.typescript,
+    name: 'TypeScript',
+    grammar: Prism.languages.typescript,
+    editorLanguage: javascript({
+      jsx: false,
+      typescript: true,
+    }),
+  },
+  {
+    id: Language.tsx,
+    name: 'TSX',
+    grammar: Prism.languages.tsx,
+    editorLanguage: javascript({
+      jsx: true,
+      typescript: true,
+    }),
+  },
+  {
+    id: Language.xml,
+    name: 'XML',
+    grammar: Prism.languages.xml,
+    editorLanguage: xml(),
+  },
+  {
+    id: Language.yaml,
+    name: 'YAML',
+    grammar: Prism.languages.yaml,
+    editorLanguage: yaml(),
+  },
+];
+
+/**
+ * Register a custom language, replacing the one with the same ID
+ */
+export function registerLanguage(definition: LanguageDefinition) {
+  const index = LANGUAGES.findIndex((l) => l.id === definition.id);
+  if (index === -1) {
+    LANGUAGES.push(definition);
+  } else {
+    LANGUAGES[index] = definition;
+  }
+  // Code in the language was tokenized as plain text or with the replaced grammar
+  clearMemoizedTokens();
 }
 
-export const codeMirrorLanguageMap: Record<Language, LanguageSupport> = {
-  // [Language.text]: null,
-  [Language.typescript]: javascript({
-    jsx: false,
-    typescript: true,
-  }),
-  [Language.tsx]: javascript({
-    jsx: true,
-    typescript: true,
-  }),
-  [Language.cpp]: cpp(),
-  [Language.css]: css(),
-  [Language.html]: html(),
-  [Language.javascript]: javascript(),
-  [Language.jsx]: javascript({
-    jsx: true,
-    typescript: false,
-  }),
-  [Language.json]: json(),
-  [Language.python]: python(),
-  [Language.rust]: rust(),
-  [Language.sql]: sql(),
-  [Language.xml]: xml(),
-};
+export function isRegisteredLanguage(id: string) {
+  return LANGUAGES.some((l) => l.id === id);
+}
+
+/**
+ * Get language by ID, fall back to plain text when not found
+ */
+export function getLanguage(id: LanguageId = DEFAULT_LANGUAGE) {
+  return (
+    LANGUAGES.find((l) => l.id === id) ??
+    LANGUAGES.find((l) => l.id === DEFAULT_LANGUAGE)!
+  );
+}
+
+/**
+ * Get the Lezer parser of a language, used by the structural diff
+ * and the Lezer tokenizer, plain text languages have no parser
+ */
+export function getSyntaxParser(language: LanguageId) {
+  return getLanguage(language).editorLanguage?.language.parser;
+}
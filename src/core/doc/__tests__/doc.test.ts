@@ -1,7 +1,16 @@
 import { describe, expect, it, vi } from 'vitest';
-import { createDoc, type Doc, type Snapshot } from '../doc';
+import {
+  createDoc,
+  syncTypewriterTransitionTimes,
+  type Doc,
+  type Snapshot,
+} from '../doc';
 import { type RawDoc } from '../raw-doc';
 import { Language } from '../../code-languages/languages';
+import { memoizedParseCodeToFormattedTokens } from '../../tokenize/index';
+import { createMutation } from '../../transition/mutation';
+import { TransitionEffectType } from '../../transition/transition';
+import { CalloutType } from '../callout';
 
 // Mock the tokenize module
 vi.mock('../../tokenize/index', () => ({
@@ -142,6 +151,39 @@ describe('Doc Module', () => {
       expect(doc.snapshots[0].linesCount).toBe(1); // One newline = 1
     });
 
+    it('should tokenize each snapshot with its own language', () => {
+      const mixedDoc: RawDoc = {
+        ...mockRawDoc,
+        language: 'sql',
+        snapshots: [
+          { ...mockRawDoc.snapshots[0], code: 'SELECT id FROM users;' },
+          {
+            ...mockRawDoc.snapshots[1],
+            code: 'const id = users.id;',
+            language: 'typescript',
+          },
+        ],
+      };
+
+      createDoc(mixedDoc);
+
+      expect(memoizedParseCodeToFormattedTokens).toHaveBeenCalledWith(
+        'SELECT id FROM users;',
+        'sql',
+        undefined,
+      );
+      expect(memoizedParseCodeToFormattedTokens).toHaveBeenCalledWith(
+        'const id = users.id;',
+        'typescript',
+        undefined,
+      );
+      expect(createMutation).toHaveBeenLastCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ lineAware: false }),
+      );
+    });
+
     it('should handle complex code with multiple lines', () => {
       const complexDoc: RawDoc = {
         ...mockRawDoc,
@@ -160,6 +202,133 @@ describe('Doc Module', () => {
     });
   });
 
+  describe('directives', () => {
+    it('should render the code without directives', () => {
+      const doc = createDoc({
+        ...mockRawDoc,
+        snapshots: [
+          {
+            ...mockRawDoc.snapshots[0],
+            code: 'const a = 1; // [!highlight]\na(); // [!focus]',
+            highlights: [{ startLine: 2, endLine: 2 }],
+          },
+        ],
+      });
+      const [snapshot] = doc.snapshots;
+
+      expect(snapshot.code).toBe('const a = 1;\na();');
+      expect(memoizedParseCodeToFormattedTokens).toHaveBeenCalledWith(
+        'const a = 1;\na();',
+        Language.javascript,
+        undefined,
+      );
+      expect(snapshot.highlights).toEqual([
+        { startLine: 2, endLine: 2 },
+        { startLine: 1, endLine: 1 },
+      ]);
+      expect(snapshot.focus).toEqual({ startLine: 2, endLine: 2 });
+    });
+
+    it('should prefer the camera focus of the snapshot', () => {
+      const focus = { startLine: 1, endLine: 1 };
+      const doc = createDoc({
+        ...mockRawDoc,
+        snapshots: [
+          {
+            ...mockRawDoc.snapshots[0],
+            code: 'a();\nb(); // [!focus]',
+            camera: { focus },
+          },
+        ],
+      });
+
+      expect(doc.snapshots[0].focus).toEqual(focus);
+    });
+
+    it('should map the lines of the snapshot past directive lines', () => {
+      const doc = createDoc({
+        ...mockRawDoc,
+        snapshots: [
+          {
+            ...mockRawDoc.snapshots[0],
+            code: '// [!highlight]\na();\nb();\nc();',
+            highlights: [{ startLine: 3, endLine: 3 }],
+            callouts: [
+              {
+                id: 'c',
+                type: CalloutType.BUBBLE,
+                text: 'c',
+                anchor: { startLine: 4, endLine: 4, startColumn: 1 },
+              },
+            ],
+            collapsed: [{ startLine: 3, endLine: 4 }],
+            scrollToLine: 4,
+            camera: { focus: { startLine: 2, endLine: 3 } },
+          },
+        ],
+      });
+      const [snapshot] = doc.snapshots;
+
+      expect(snapshot.highlights).toEqual([
+        { startLine: 2, endLine: 2 },
+        { startLine: 1, endLine: 1 },
+      ]);
+      expect(snapshot.callouts[0].anchor).toEqual({
+        startLine: 3,
+        endLine: 3,
+        startColumn: 1,
+      });
+      expect(snapshot.collapsed).toEqual([{ startLine: 2, endLine: 3 }]);
+      expect(snapshot.scrollToLine).toBe(3);
+      expect(snapshot.focus).toEqual({ startLine: 1, endLine: 2 });
+    });
+
+    it('should collapse the hidden lines in place', () => {
+      const doc = createDoc({
+        ...mockRawDoc,
+        snapshots: [
+          {
+            ...mockRawDoc.snapshots[0],
+            code: 'a();\n// [!hide-start]\nsetup();\n// [!hide-end]\nb();',
+            highlights: [{ startLine: 5, endLine: 5 }],
+          },
+        ],
+      });
+      const [snapshot] = doc.snapshots;
+
+      expect(snapshot.code).toBe('a();\nsetup();\nb();');
+      expect(snapshot.collapsed).toEqual([{ startLine: 2, endLine: 2 }]);
+      expect(snapshot.highlights).toEqual([{ startLine: 3, endLine: 3 }]);
+    });
+
+    it('should map the pairing hints to the rendered code', () => {
+      vi.mocked(createMutation).mockClear();
+      createDoc({
+        ...mockRawDoc,
+        snapshots: [
+          {
+            ...mockRawDoc.snapshots[0],
+            code: '// [!focus]\nfoo();',
+            pairingHints: [
+              { left: { start: 12, end: 15 }, right: { start: 0, end: 3 } },
+            ],
+          },
+          { ...mockRawDoc.snapshots[1], code: 'bar(); // [!highlight]' },
+        ],
+      });
+
+      expect(createMutation).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({
+          pairingHints: [
+            { left: { start: 0, end: 3 }, right: { start: 0, end: 3 } },
+          ],
+        }),
+      );
+    });
+  });
+
   describe('Snapshot interface', () => {
     it('should have correct snapshot structure', () => {
       const doc = createDoc(mockRawDoc);
@@ -237,4 +406,67 @@ describe('Doc Module', () => {
       expect(doc.snapshots[0].linesCount).toBe(1000);
     });
   });
+
+  describe('syncTypewriterTransitionTimes', () => {
+    it('should return the same doc without typewriter transitions', () => {
+      expect(syncTypewriterTransitionTimes(mockRawDoc)).toBe(mockRawDoc);
+    });
+
+    it('should derive the transition time from the typing speed', () => {
+      vi.mocked(createMutation).mockReturnValueOnce({
+        left: [],
+        right: [{ value: 'abcdef', types: [] }],
+        diffs: [{ leftIndex: null, rightIndex: 0 }],
+        lines: [],
+      });
+      const typewriterDoc: RawDoc = {
+        ...mockRawDoc,
+        snapshots: mockRawDoc.snapshots.map((snapshot, index) =>
+          index === 0
+            ? {
+                ...snapshot,
+                transitionConfig: {
+                  effectType: TransitionEffectType.TYPEWRITER,
+                  typingSpeed: 10,
+                },
+              }
+            : snapshot,
+        ),
+      };
+
+      const { snapshots } = syncTypewriterTransitionTimes(typewriterDoc);
+
+      expect(snapshots[0].transitionTime).toBe(600);
+      // The static part of the snapshot is kept
+      expect(snapshots[0].duration).toBe(1100);
+      expect(snapshots[1]).toBe(typewriterDoc.snapshots[1]);
+    });
+
+    it('should only update the transitions next to the changed snapshots', () => {
+      vi.mocked(createMutation)
+        .mockClear()
+        .mockReturnValueOnce({
+          left: [],
+          right: [{ value: 'abcdef', types: [] }],
+          diffs: [{ leftIndex: null, rightIndex: 0 }],
+          lines: [],
+        });
+      const typewriterDoc: RawDoc = {
+        ...mockRawDoc,
+        snapshots: mockRawDoc.snapshots.map((snapshot) => ({
+          ...snapshot,
+          transitionConfig: {
+            effectType: TransitionEffectType.TYPEWRITER,
+            typingSpeed: 10,
+          },
+        })),
+      };
+
+      const { snapshots } = syncTypewriterTransitionTimes(typewriterDoc, [2]);
+
+      expect(createMutation).toHaveBeenCalledTimes(1);
+      expect(snapshots[0]).toBe(typewriterDoc.snapshots[0]);
+      expect(snapshots[1].transitionTime).toBe(600);
+    });
+  });
 });
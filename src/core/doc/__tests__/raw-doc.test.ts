@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   getSumDuration,
   getSnapshotAtTime,
+  getSnapshotLanguage,
   isOffsetTimeInTransition,
   type RawDoc,
   type DocSnapshot,
@@ -232,6 +233,22 @@ describe('Raw Doc Module', () => {
     });
   });
 
+  describe('getSnapshotLanguage', () => {
+    it('should fall back to the doc language', () => {
+      expect(getSnapshotLanguage(mockRawDoc, 0)).toBe(mockRawDoc.language);
+    });
+
+    it('should use the snapshot language when overridden', () => {
+      const doc: RawDoc = {
+        ...mockRawDoc,
+        snapshots: [mockSnapshots[0], { ...mockSnapshots[1], language: 'sql' }],
+      };
+
+      expect(getSnapshotLanguage(doc, 0)).toBe(mockRawDoc.language);
+      expect(getSnapshotLanguage(doc, 1)).toBe('sql');
+    });
+  });
+
   describe('Edge cases and boundary conditions', () => {
     it('should handle very large durations', () => {
       const largeDurationDoc: RawDoc = {
@@ -0,0 +1,17 @@
+import { type CodeRange } from './raw-doc';
+
+export enum CalloutType {
+  BUBBLE = 'bubble',
+  ARROW = 'arrow',
+  SQUIGGLE = 'squiggle',
+}
+
+export interface Callout {
+  /**
+   * Callouts with the same id in two snapshots move into each other in the transition
+   */
+  id: string;
+  type: CalloutType;
+  text: string;
+  anchor: CodeRange;
+}
@@ -5,11 +5,56 @@ import {
   memoizedParseCodeToFormattedTokens,
 } from '../tokenize/index';
 import { type MovMutation, createMutation } from '../transition/mutation';
-import { type RawDoc } from './raw-doc';
+import {
+  DEFAULT_TRANSITION_CONFIG,
+  TransitionEffectType,
+} from '../transition/transition';
+import { getTypewriterTransitionTime } from '../transition/typewriter';
+import { getSyntaxParser } from '../code-languages/languages';
+import {
+  type SourceLine,
+  parseDirectives,
+  toCodeLine,
+  toCodeRange,
+  toCodeTextRange,
+} from '../tokenize/directives';
+import { type Callout } from './callout';
+import {
+  type CameraFocus,
+  type LineSpan,
+  type RawDoc,
+  getSnapshotLanguage,
+} from './raw-doc';
 
 export interface Snapshot {
+  /**
+   * The rendered code, without the directives in comments
+   */
+  code: string;
   tokens: Token[];
   linesCount: number;
+  /**
+   * The highlights of the snapshot and its `[!highlight]` directives
+   */
+  highlights: LineSpan[];
+  /**
+   * The callouts of the snapshot and its `[!callout]` directives
+   */
+  callouts: Callout[];
+  /**
+   * The camera focus of the snapshot, or the lines of its `[!focus]` directives
+   */
+  focus?: CameraFocus;
+  /**
+   * The collapsed lines of the snapshot and its hidden lines
+   */
+  collapsed: LineSpan[];
+  scrollToLine?: number;
+  /**
+   * Maps the lines of the raw code to `code`, the lines and offsets of
+   * the raw snapshot refer to the raw code
+   */
+  sourceLines: SourceLine[];
 }
 
 export interface Doc {
@@ -18,14 +63,88 @@ export interface Doc {
   transitions: MovMutation[];
 }
 
+/**
+ * Pair the tokens of a snapshot with the tokens of the next one
+ */
+export function createSnapshotMutation(
+  raw: RawDoc,
+  index: number,
+  snapshot: Snapshot,
+  nextSnapshot: Snapshot,
+) {
+  const { transitionConfig, pairingHints } = raw.snapshots[index];
+  const language = getSnapshotLanguage(raw, index);
+  /**
+   * Code is usually restructured when the language switches, lines won't align
+   * and syntax nodes of different grammars never match, so only pair tokens by text
+   */
+  const isSameLanguage = language === getSnapshotLanguage(raw, index + 1);
+
+  return createMutation(snapshot.tokens, nextSnapshot.tokens, {
+    lineAware: isSameLanguage,
+    strategyId: transitionConfig?.diffStrategyId,
+    syntaxParser:
+      transitionConfig?.structuralDiff && isSameLanguage
+        ? getSyntaxParser(language)
+        : undefined,
+    pairingHints: pairingHints?.map(({ left, right }) => ({
+      left: toCodeTextRange(snapshot.sourceLines, left),
+      right: toCodeTextRange(nextSnapshot.sourceLines, right),
+    })),
+  });
+}
+
+export function createSnapshot(raw: RawDoc, index: number): Snapshot {
+  const {
+    code: rawCode,
+    highlights,
+    callouts,
+    camera,
+    collapsed,
+    scrollToLine,
+  } = raw.snapshots[index];
+  const directives = parseDirectives(rawCode);
+  const { code, sourceLines } = directives;
+
+  return {
+    code,
+    tokens: memoizedParseCodeToFormattedTokens(
+      code,
+      getSnapshotLanguage(raw, index),
+      raw.tokenizer,
+    ),
+    linesCount: getLinesCount(code),
+    highlights: [
+      ...(highlights ?? []).map((span) => toCodeRange(sourceLines, span)),
+      ...directives.highlights,
+    ],
+    callouts: [
+      ...(callouts ?? []).map((callout) => ({
+        ...callout,
+        anchor: toCodeRange(sourceLines, callout.anchor),
+      })),
+      ...directives.callouts,
+    ],
+    focus: camera?.focus
+      ? toCodeRange(sourceLines, camera.focus)
+      : directives.focus,
+    collapsed: [
+      ...(collapsed ?? []).map((span) => toCodeRange(sourceLines, span)),
+      ...directives.collapsed,
+    ],
+    scrollToLine:
+      scrollToLine != null ? toCodeLine(sourceLines, scrollToLine) : undefined,
+    sourceLines,
+  };
+}
+
 export function createDoc(raw: RawDoc): Doc {
-  const snapshots = raw.snapshots.map<Snapshot>((snapshot) => ({
-    tokens: memoizedParseCodeToFormattedTokens(snapshot.code, raw.language),
-    linesCount: getLinesCount(snapshot.code),
-  }));
+  const snapshots = raw.snapshots.map<Snapshot>((_, index) =>
+    createSnapshot(raw, index),
+  );
 
   const transitions = createArray(snapshots.length - 1, (index) =>
-    createMutation(snapshots[index].tokens, snapshots[index + 1].tokens),
+    createSnapshotMutation(raw, index, snapshots[index], snapshots[index + 1]),
   );
 
   return {
@@ -34,3 +153,61 @@ export function createDoc(raw: RawDoc): Doc {
     transitions,
   };
 }
+
+/**
+ * Typewriter transitions last as long as typing their inserted characters takes,
+ * update their transition times and keep the static part of the durations.
+ * The same doc is returned when nothing changes
+ * @param raw
+ * @param changedIndexes The snapshots that changed, only the transitions
+ * from and into them are updated, every transition when omitted
+ * @returns
+ */
+export function syncTypewriterTransitionTimes(
+  raw: RawDoc,
+  changedIndexes?: number[],
+): RawDoc {
+  const transitionIndexes =
+    changedIndexes && new Set(changedIndexes.flatMap((i) => [i - 1, i]));
+  let changed = false;
+
+  const snapshots = raw.snapshots.map((snapshot, index) => {
+    const transitionConfig = {
+      ...DEFAULT_TRANSITION_CONFIG,
+      ...snapshot.transitionConfig,
+    };
+    if (
+      transitionConfig.effectType !== TransitionEffectType.TYPEWRITER ||
+      index === raw.snapshots.length - 1 ||
+      (transitionIndexes && !transitionIndexes.has(index))
+    ) {
+      return snapshot;
+    }
+
+    const mutation = createSnapshotMutation(
+      raw,
+      index,
+      createSnapshot(raw, index),
+      createSnapshot(raw, index + 1),
+    );
+    const transitionTime = getTypewriterTransitionTime(
+      mutation,
+      transitionConfig.typingSpeed,
+    );
+    if (transitionTime === snapshot.transitionTime) {
+      return snapshot;
+    }
+
+    changed = true;
+    return {
+      ...snapshot,
+      duration: Math.max(
+        transitionTime,
+        snapshot.duration - snapshot.transitionTime + transitionTime,
+      ),
+      transitionTime,
+    };
+  });
+
+  return changed ? { ...raw, snapshots } : raw;
+}
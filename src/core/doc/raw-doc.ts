@@ -1,6 +1,9 @@
 import { type ThemeName } from '../theme/index';
-import { type Language } from '../code-languages/languages';
+import { type LanguageId } from '../code-languages/languages';
+import { type TokenizerName } from '../tokenize/index';
 import { type TransitionConfig } from '../transition/transition';
+import { type TokenPairingHint } from '../transition/mutation';
+import { type Callout } from './callout';
 
 export interface DocSnapshot {
   id: string;
@@ -16,6 +19,89 @@ export interface DocSnapshot {
    * Optional - will use default if not specified
    */
   transitionConfig?: Partial<TransitionConfig>;
+  /**
+   * Manual token pairings for the transition into the next snapshot,
+   * `left` ranges refer to this snapshot and `right` ranges to the next one
+   */
+  pairingHints?: TokenPairingHint[];
+  /**
+   * The language of this snapshot, overrides `RawDoc.language`
+   */
+  language?: LanguageId;
+  /**
+   * Scroll the line (1 based) to the top of the canvas,
+   * instead of following the changed lines
+   */
+  scrollToLine?: number;
+  /**
+   * The camera keyframe of this snapshot, the camera eases between keyframes in transitions
+   */
+  camera?: CameraKeyframe;
+  /**
+   * Lines drawn on a highlight band, the tokens on other lines are dimmed
+   */
+  highlights?: LineSpan[];
+  /**
+   * Opacity of the tokens outside the highlighted lines, defaults to `DEFAULT_DIM_OPACITY`
+   */
+  dimOpacity?: number;
+  /**
+   * Annotations anchored to ranges of this snapshot
+   */
+  callouts?: Callout[];
+  /**
+   * Lines folded into a single placeholder line
+   */
+  collapsed?: LineSpan[];
+}
+
+/**
+ * A range of lines, 1 based and include both ends
+ */
+export interface LineSpan {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * A range of code, lines and columns are 1 based and include both ends
+ */
+export interface CodeRange {
+  startLine: number;
+  endLine: number;
+  startColumn?: number;
+  endColumn?: number;
+}
+
+export type CameraFocus = CodeRange;
+
+export interface CameraKeyframe {
+  /**
+   * Zoom into a range, it is fitted into the canvas unless `zoom` is set
+   */
+  focus?: CameraFocus;
+  /**
+   * Scale of the camera, around the focus or the center of the canvas
+   */
+  zoom?: number;
+  /**
+   * Easing of the camera moving into this snapshot, defaults to the transition easing
+   */
+  easingId?: string;
+}
+
+/**
+ * A font file uploaded into the project
+ */
+export interface DocFont {
+  /**
+   * The family the font is registered with
+   */
+  family: string;
+  /**
+   * The WOFF2 or TTF file as a data URL
+   */
+  source: string;
 }
 
 export interface DocPadding {
@@ -25,7 +111,11 @@ export interface DocPadding {
 }
 
 export interface RawDoc {
-  language: Language;
+  language: LanguageId;
+  /**
+   * The tokenizer backend used to highlight code, defaults to Prism
+   */
+  tokenizer?: TokenizerName;
   snapshots: DocSnapshot[];
   fontSize: number;
   lineHeight: number;
@@ -33,6 +123,18 @@ export interface RawDoc {
   height: number;
   theme: ThemeName;
   padding: DocPadding;
+  /**
+   * Draw a line number gutter before the code
+   */
+  lineNumbers?: boolean;
+  /**
+   * Wrap the lines wider than the canvas at token boundaries
+   */
+  wordWrap?: boolean;
+  /**
+   * Draw the code in an uploaded font instead of the font of the theme
+   */
+  font?: DocFont;
 }
 
 export function getSnapshotAtTime(
@@ -56,6 +158,19 @@ export function getSnapshotAtTime(
   return [lastIndex, snapshots[lastIndex]?.duration ?? 0];
 }
 
+/**
+ * Get the language of a snapshot, fall back to the doc language
+ * @param doc
+ * @param snapshotIndex
+ * @returns
+ */
+export function getSnapshotLanguage(
+  doc: Pick<RawDoc, 'language' | 'snapshots'>,
+  snapshotIndex: number,
+): LanguageId {
+  return doc.snapshots[snapshotIndex]?.language ?? doc.language;
+}
+
 /**
  * The last transitionTime of the snapshot duration is used for transition
  * @param snapshot
@@ -39,7 +39,7 @@ export abstract class BaseExportEncoder implements ExportEncoder {
   }
 
   protected async waitForRenderer(): Promise<void> {
-    await this.renderer.readyPromise;
+    await this.renderer.waitForExport();
   }
 
   protected getFrameCount(frameRate: number): number {
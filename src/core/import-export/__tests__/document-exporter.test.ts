@@ -157,6 +157,29 @@ describe('DocumentExporter', () => {
       expect(parsed.document).toBeDefined();
       expect(parsed.metadata).toBeUndefined();
     });
+
+    it('should export custom grammars with the document', async () => {
+      const grammar = {
+        id: 'dsl',
+        name: 'DSL',
+        format: 'prism' as const,
+        source: '{"keyword": "step"}',
+      };
+      const options: ExportOptions = {
+        format: ImportExportFormat.JSON,
+        dataType: DataType.DOCUMENT,
+        includeMetadata: false,
+        compression: false,
+      };
+
+      const result = await exporter.export(
+        { ...sampleProjectData, grammars: [grammar] },
+        options,
+      );
+      const parsed = JSON.parse(await result.blob.text());
+
+      expect(parsed.grammars).toEqual([grammar]);
+    });
   });
 
   describe('CSV Export', () => {
@@ -454,6 +477,32 @@ describe('DocumentExporter', () => {
         expect.any(String),
       );
     });
+
+    it('should include custom grammars in ZIP', async () => {
+      const JSZip = vi.mocked((await import('jszip')).default);
+
+      const source = '{"scopeName": "source.dsl", "patterns": []}';
+      const options: ExportOptions = {
+        format: ImportExportFormat.ZIP,
+        dataType: DataType.PROJECT,
+        includeMetadata: true,
+        compression: true,
+      };
+
+      await exporter.export(
+        {
+          ...sampleProjectData,
+          grammars: [{ id: 'dsl', name: 'DSL', format: 'textmate', source }],
+        },
+        options,
+      );
+
+      const { value: zip } = JSZip.mock.results[JSZip.mock.results.length - 1];
+      expect(zip.file).toHaveBeenCalledWith(
+        'grammars/dsl.textmate.json',
+        source,
+      );
+    });
   });
 
   describe('Field Selection', () => {
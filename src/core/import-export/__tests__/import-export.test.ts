@@ -86,6 +86,7 @@ describe('ProjectImportExportManager', () => {
             [DataType.THEMES]: 0,
             [DataType.PRESETS]: 0,
             [DataType.SETTINGS]: 0,
+            [DataType.GRAMMARS]: 0,
           },
           processingTime: 100,
           averageItemTime: 100,
@@ -1,5 +1,5 @@
 import { type RawDoc, type DocSnapshot } from '../doc/raw-doc';
-import { Language } from '../code-languages/languages';
+import { LANGUAGES, isRegisteredLanguage } from '../code-languages/languages';
 import {
   type ProjectData,
   type ProjectMetadata,
@@ -301,12 +301,12 @@ export class DataValidator {
           value: doc.language,
           expectedType: 'string',
         });
-      } else if (!Object.values(Language).includes(doc.language as Language)) {
+      } else if (!isRegisteredLanguage(doc.language)) {
         warnings.push({
           field: 'document.language',
           message: `Unknown language: ${doc.language}`,
           value: doc.language,
-          suggestion: `Supported languages: ${Object.values(Language).join(', ')}`,
+          suggestion: `Supported languages: ${LANGUAGES.map((l) => l.id).join(', ')}`,
         });
       }
     }
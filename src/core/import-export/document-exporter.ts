@@ -139,6 +139,8 @@ export class DocumentExporter {
       options.dataType === DataType.SNAPSHOTS
     ) {
       result.document = projectData.document;
+      // The document can't be highlighted without its custom languages
+      result.grammars = projectData.grammars;
     }
 
     // Apply filters
@@ -266,6 +268,7 @@ export class DocumentExporter {
 
     // Copy other fields as-is
     result.themes = data.themes;
+    result.grammars = data.grammars;
     result.presets = data.presets;
     result.exportSettings = data.exportSettings;
     result.versionHistory = data.versionHistory;
@@ -451,13 +454,25 @@ export class DocumentExporter {
     const xmlData = this.formatAsXML(data, options.xmlOptions!);
     zip.file('project.xml', xmlData);
 
+    // Add custom grammars in their original format
+    const grammarFiles = (data.grammars ?? []).map((grammar) => {
+      const filename = `grammars/${grammar.id}.${grammar.format}.json`;
+      zip.file(filename, grammar.source);
+      return filename;
+    });
+
     // Add metadata file
     const metadata = {
       exportedAt: new Date().toISOString(),
       exportFormat: 'diffani-project-archive-v1',
-      contents: ['project.json', 'project.xml'],
+      contents: ['project.json', 'project.xml', ...grammarFiles],
       ...(data.document?.snapshots && {
-        contents: ['project.json', 'snapshots.csv', 'project.xml'],
+        contents: [
+          'project.json',
+          'snapshots.csv',
+          'project.xml',
+          ...grammarFiles,
+        ],
       }),
     };
     zip.file('metadata.json', JSON.stringify(metadata, null, 2));
@@ -521,6 +536,7 @@ export class DocumentExporter {
       [DataType.THEMES]: 0,
       [DataType.PRESETS]: 0,
       [DataType.SETTINGS]: 0,
+      [DataType.GRAMMARS]: 0,
     };
 
     if (data.metadata) {
@@ -553,6 +569,11 @@ export class DocumentExporter {
       itemsByType[DataType.SETTINGS]++;
     }
 
+    if (data.grammars) {
+      totalItems += data.grammars.length;
+      itemsByType[DataType.GRAMMARS] = data.grammars.length;
+    }
+
     return {
       totalItems,
       exportedItems: totalItems,
@@ -65,6 +65,7 @@ export class DocumentImporter {
           [DataType.THEMES]: 0,
           [DataType.PRESETS]: 0,
           [DataType.SETTINGS]: 0,
+          [DataType.GRAMMARS]: 0,
         },
         processingTime: 0,
         averageItemTime: 0,
@@ -207,6 +208,7 @@ export class DocumentImporter {
           metadata: data.metadata,
           document: data.document,
           themes: data.themes,
+          grammars: data.grammars,
           presets: data.presets,
           exportSettings: data.exportSettings,
           versionHistory: data.versionHistory,
@@ -515,6 +517,20 @@ export class DocumentImporter {
       result.stats.totalItems++;
       result.stats.importedItems++;
     }
+
+    // The app state adds the custom languages, so they are kept with the project
+    data.grammars?.forEach((grammar) => {
+      result.importedItems.push({
+        type: DataType.GRAMMARS,
+        id: grammar.id,
+        name: grammar.name,
+        action: ImportAction.CREATED,
+        importedData: grammar,
+      });
+      result.stats.itemsByType[DataType.GRAMMARS]++;
+      result.stats.totalItems++;
+      result.stats.importedItems++;
+    });
   }
 
   /**
@@ -2,6 +2,7 @@ import { type RawDoc, type DocSnapshot } from '../doc/raw-doc';
 import { type AnimationPreset } from '../presets/types';
 import { type CodeTheme } from '../themes/types';
 import { type ExportSettings } from '../export/types';
+import { type CustomGrammar } from '../code-languages/custom-grammar';
 
 // ============================================================================
 // Import/Export Format Types
@@ -21,6 +22,7 @@ export enum DataType {
   THEMES = 'themes',
   PRESETS = 'presets',
   SETTINGS = 'settings',
+  GRAMMARS = 'grammars',
 }
 
 // ============================================================================
@@ -53,6 +55,8 @@ export interface ProjectData {
   metadata: ProjectMetadata;
   document: RawDoc;
   themes?: CodeTheme[];
+  // Custom languages used by the document
+  grammars?: CustomGrammar[];
   presets?: AnimationPreset[];
   exportSettings?: ExportSettings;
 
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { CalloutType } from '../../doc/callout';
+import {
+  getAnchorRect,
+  getAnchorTokenIndexes,
+  getSquigglePoints,
+  interpolateAnchorRect,
+  layoutCallout,
+} from '../callout';
+import { tokenize } from '../../../test-utils';
+
+describe('getAnchorTokenIndexes', () => {
+  const tokens = tokenize('const a = 1;\nlet b = 2;');
+  const valuesOf = (indexes: number[]) =>
+    indexes.map((index) => tokens[index].value.trim());
+
+  it('should get the tokens on the lines', () => {
+    const values = valuesOf(
+      getAnchorTokenIndexes(tokens, { startLine: 2, endLine: 2 }),
+    );
+
+    expect(values).toContain('let');
+    expect(values).not.toContain('const');
+    expect(values).not.toContain('');
+  });
+
+  it('should respect the columns', () => {
+    const values = valuesOf(
+      getAnchorTokenIndexes(tokens, {
+        startLine: 1,
+        endLine: 1,
+        startColumn: 7,
+        endColumn: 7,
+      }),
+    );
+
+    expect(values).toEqual(['a']);
+  });
+});
+
+describe('getAnchorRect', () => {
+  const states = [
+    { x: 0, y: 0, width: 30, alpha: 1 },
+    { x: 40, y: 0, width: 10, alpha: 0.5 },
+    { x: 10, y: 20, width: 20, alpha: 0.2 },
+  ];
+
+  it('should cover the anchor tokens', () => {
+    expect(getAnchorRect([1, 2], states, 20)).toEqual({
+      x: 10,
+      y: 0,
+      width: 40,
+      height: 40,
+      alpha: 0.5,
+    });
+  });
+
+  it('should return null without drawn tokens', () => {
+    expect(getAnchorRect([3], states, 20)).toBeNull();
+  });
+});
+
+describe('interpolateAnchorRect', () => {
+  it('should move between the rects', () => {
+    expect(
+      interpolateAnchorRect(
+        { x: 0, y: 0, width: 10, height: 20, alpha: 0 },
+        { x: 10, y: 20, width: 30, height: 20, alpha: 1 },
+        0.5,
+      ),
+    ).toEqual({ x: 5, y: 10, width: 20, height: 20, alpha: 0.5 });
+  });
+});
+
+describe('getSquigglePoints', () => {
+  it('should wave across the width', () => {
+    const points = getSquigglePoints(10, 20, 40, 2);
+
+    expect(points[0]).toEqual({ x: 10, y: 22 });
+    expect(points[1].y).toBe(18);
+    expect(points[points.length - 1].x).toBe(50);
+  });
+});
+
+describe('layoutCallout', () => {
+  const anchor = { x: 100, y: 100, width: 40, height: 20 };
+  const labelSize = { width: 60, height: 10 };
+
+  it('should float bubbles above the anchor', () => {
+    const { box, label, pointer } = layoutCallout(
+      CalloutType.BUBBLE,
+      anchor,
+      labelSize,
+      5,
+    );
+
+    expect(box).toEqual({ x: 85, y: 75, width: 70, height: 20 });
+    expect(label).toEqual({ x: 90, y: 80 });
+    expect(pointer[2]).toEqual({ x: 120, y: 100 });
+  });
+
+  it('should put bubbles below the anchor on the first lines', () => {
+    const { box } = layoutCallout(
+      CalloutType.BUBBLE,
+      { ...anchor, y: 0 },
+      labelSize,
+      5,
+    );
+
+    expect(box.y).toBe(25);
+  });
+
+  it('should point arrows at the end of the anchor', () => {
+    const { box, pointer } = layoutCallout(
+      CalloutType.ARROW,
+      anchor,
+      labelSize,
+      5,
+    );
+
+    expect(pointer).toEqual([
+      { x: box.x, y: 110 },
+      { x: 145, y: 110 },
+    ]);
+    expect(box.y + box.height / 2).toBe(110);
+  });
+
+  it('should underline the anchor with squiggles', () => {
+    const { pointer, label } = layoutCallout(
+      CalloutType.SQUIGGLE,
+      anchor,
+      labelSize,
+      5,
+    );
+
+    expect(pointer[0].x).toBe(100);
+    expect(pointer[pointer.length - 1].x).toBe(140);
+    expect(label.y).toBeGreaterThan(120);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type CameraViewport,
+  getChangedLineRange,
+  getFocusCameraState,
+  getFocusScrollTop,
+  getLineScrollTop,
+  getScrollBounds,
+  interpolateCameraState,
+  MAX_CAMERA_ZOOM,
+  zoomCameraState,
+} from '../camera';
+import { createMutation } from '../../transition/mutation';
+import { tokenize } from '../../../test-utils';
+
+function createLines(count: number) {
+  return Array.from({ length: count }, (_, index) => `line${index}`).join('\n');
+}
+
+const viewport: CameraViewport = {
+  height: 100,
+  lineHeight: 10,
+  linesCount: 50,
+  paddingTop: 0,
+  paddingBottom: 0,
+};
+
+describe('getChangedLineRange', () => {
+  it('should return null when nothing changes', () => {
+    const code = tokenize(createLines(5));
+
+    expect(getChangedLineRange(createMutation(code, code))).toBeNull();
+  });
+
+  it('should cover the added and modified lines', () => {
+    const left = createLines(30);
+    const right = left
+      .replace('line10', 'changed10')
+      .replace('line20', 'line20\nadded');
+
+    expect(
+      getChangedLineRange(createMutation(tokenize(left), tokenize(right))),
+    ).toEqual([10, 21]);
+  });
+
+  it('should count deletions for the line they are deleted from', () => {
+    const left = createLines(30);
+    const right = left.replace('line15\n', '');
+    const range = getChangedLineRange(
+      createMutation(tokenize(left), tokenize(right)),
+    );
+
+    expect(range?.[0]).toBeGreaterThanOrEqual(14);
+    expect(range?.[1]).toBeLessThanOrEqual(15);
+  });
+});
+
+describe('getScrollBounds', () => {
+  it('should center the content that fits', () => {
+    expect(getScrollBounds({ ...viewport, linesCount: 6 })).toEqual({
+      minScrollTop: -20,
+      maxScrollTop: 0,
+    });
+  });
+
+  it('should allow scrolling through long content', () => {
+    expect(getScrollBounds(viewport).maxScrollTop).toBe(400);
+  });
+});
+
+describe('getFocusScrollTop', () => {
+  it('should center the range', () => {
+    expect(getFocusScrollTop([20, 21], viewport)).toBe(160);
+  });
+
+  it('should stay within the content', () => {
+    expect(getFocusScrollTop([1, 1], viewport)).toBe(0);
+    expect(getFocusScrollTop([49, 49], viewport)).toBe(400);
+  });
+
+  it('should align a range taller than the canvas to the top', () => {
+    expect(getFocusScrollTop([10, 30], viewport)).toBe(100);
+  });
+
+  it('should keep the content centered when it fits', () => {
+    expect(getFocusScrollTop([2, 3], { ...viewport, linesCount: 6 })).toBe(-20);
+  });
+});
+
+describe('getLineScrollTop', () => {
+  it('should scroll the line to the top', () => {
+    expect(getLineScrollTop(12, viewport)).toBe(120);
+    expect(getLineScrollTop(48, viewport)).toBe(400);
+  });
+});
+
+const canvas = { width: 200, height: 100 };
+
+describe('zoomCameraState', () => {
+  it('should keep the center of the canvas in place', () => {
+    expect(zoomCameraState({ x: 0, y: 0, scale: 1 }, 2, canvas)).toEqual({
+      x: -100,
+      y: -50,
+      scale: 2,
+    });
+  });
+});
+
+describe('getFocusCameraState', () => {
+  const rect = { x: 20, y: 40, width: 40, height: 10 };
+
+  it('should fit the rect into the canvas', () => {
+    expect(getFocusCameraState(rect, canvas, 10)).toEqual({
+      x: -60,
+      y: -130,
+      scale: 4,
+    });
+  });
+
+  it('should center the rect with the given zoom', () => {
+    expect(getFocusCameraState(rect, canvas, 10, 2)).toEqual({
+      x: 20,
+      y: -40,
+      scale: 2,
+    });
+  });
+
+  it('should clamp the zoom', () => {
+    expect(
+      getFocusCameraState({ ...rect, width: 1, height: 1 }, canvas, 10).scale,
+    ).toBe(MAX_CAMERA_ZOOM);
+  });
+});
+
+describe('interpolateCameraState', () => {
+  it('should move between the states', () => {
+    expect(
+      interpolateCameraState(
+        { x: 0, y: 10, scale: 1 },
+        { x: 100, y: 30, scale: 2 },
+        0.5,
+      ),
+    ).toEqual({ x: 50, y: 20, scale: 1.5 });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getFoldLayout, interpolatePlaceholders } from '../fold';
+
+const code = ['a', '  b', '  c', 'd', 'e', 'f'].join('\n');
+
+describe('getFoldLayout', () => {
+  it('should keep every line without collapsed ranges', () => {
+    expect(getFoldLayout(code, undefined)).toEqual({
+      displayLines: [0, 1, 2, 3, 4, 5],
+      lastDisplayLines: [0, 1, 2, 3, 4, 5],
+      collapsedLines: [false, false, false, false, false, false],
+      placeholders: [],
+      displayLinesCount: 6,
+    });
+  });
+
+  it('should fold the collapsed lines into a placeholder', () => {
+    const fold = getFoldLayout(code, [{ startLine: 2, endLine: 3 }]);
+
+    expect(fold.displayLines).toEqual([0, 1, 1, 2, 3, 4]);
+    expect(fold.placeholders).toEqual([{ line: 1, indent: '  ' }]);
+    expect(fold.displayLinesCount).toBe(5);
+  });
+
+  it('should share a placeholder between touching ranges', () => {
+    const fold = getFoldLayout(code, [
+      { startLine: 2, endLine: 3 },
+      { startLine: 4, endLine: 4 },
+      { startLine: 6, endLine: 6 },
+    ]);
+
+    expect(fold.displayLines).toEqual([0, 1, 1, 1, 2, 3]);
+    expect(fold.placeholders).toHaveLength(2);
+  });
+
+  it('should make room for the rows of wrapped lines', () => {
+    const fold = getFoldLayout(
+      code,
+      [{ startLine: 4, endLine: 4 }],
+      [1, 3, 1, 2, 1, 2],
+    );
+
+    expect(fold.displayLines).toEqual([0, 1, 4, 5, 6, 7]);
+    expect(fold.lastDisplayLines).toEqual([0, 3, 4, 5, 6, 8]);
+    expect(fold.displayLinesCount).toBe(9);
+  });
+});
+
+describe('interpolatePlaceholders', () => {
+  it('should move the placeholders into each other', () => {
+    expect(
+      interpolatePlaceholders(
+        [{ line: 1, indent: '' }],
+        [{ line: 3, indent: '  ' }],
+        20,
+        0.5,
+      ),
+    ).toEqual([{ y: 40, alpha: 1, indent: '  ' }]);
+  });
+
+  it('should fade the placeholders without a counterpart', () => {
+    expect(
+      interpolatePlaceholders([], [{ line: 1, indent: '' }], 20, 0.25),
+    ).toEqual([{ y: 20, alpha: 0.25, indent: '' }]);
+    expect(
+      interpolatePlaceholders([{ line: 1, indent: '' }], [], 20, 0.25),
+    ).toEqual([{ y: 20, alpha: 0.75, indent: '' }]);
+  });
+});
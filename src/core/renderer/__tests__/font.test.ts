@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getFontFamily,
+  isDocFontLoaded,
+  loadDocFont,
+  readFontFile,
+} from '../font';
+
+const load = vi.fn();
+const add = vi.fn();
+
+beforeEach(() => {
+  load.mockReset();
+  add.mockReset();
+  vi.stubGlobal(
+    'FontFace',
+    vi.fn((family: string) => ({ family, load })),
+  );
+  Object.defineProperty(document, 'fonts', {
+    value: { add },
+    configurable: true,
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadDocFont', () => {
+  it('should add the loaded font to the document once', async () => {
+    const font = { family: 'Fira Code', source: 'data:font/woff2;base64,AA' };
+    load.mockImplementation(function (this: unknown) {
+      return Promise.resolve(this);
+    });
+
+    expect(isDocFontLoaded(font)).toBe(false);
+    await loadDocFont(font);
+    await loadDocFont(font);
+
+    expect(isDocFontLoaded(font)).toBe(true);
+    expect(FontFace).toHaveBeenCalledTimes(1);
+    expect(FontFace).toHaveBeenCalledWith(
+      'Fira Code',
+      'url(data:font/woff2;base64,AA)',
+    );
+    expect(add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a font that fails to load, and try again later', async () => {
+    const font = { family: 'Broken', source: 'data:font/ttf;base64,AA' };
+    load.mockRejectedValueOnce(new Error('network error'));
+
+    await expect(loadDocFont(font)).rejects.toThrow(
+      'Failed to load the font "Broken"',
+    );
+    expect(isDocFontLoaded(font)).toBe(false);
+
+    load.mockResolvedValueOnce({});
+    await loadDocFont(font);
+    expect(isDocFontLoaded(font)).toBe(true);
+  });
+});
+
+describe('getFontFamily', () => {
+  it('should fall back to the font of the theme', () => {
+    expect(getFontFamily(undefined, 'monospace')).toBe('monospace');
+    expect(
+      getFontFamily({ family: 'Fira Code', source: '' }, 'monospace'),
+    ).toBe('Fira Code, monospace');
+  });
+});
+
+describe('readFontFile', () => {
+  it('should name the font after the file', async () => {
+    vi.stubGlobal(
+      'FileReader',
+      class {
+        result: string | null = null;
+        onload: (() => void) | null = null;
+
+        readAsDataURL() {
+          this.result = 'data:font/woff2;base64,AA';
+          this.onload?.();
+        }
+      },
+    );
+    const file = new File(['font'], 'FiraCode-Regular.woff2');
+
+    await expect(readFontFile(file)).resolves.toEqual({
+      family: 'FiraCode-Regular',
+      source: expect.stringMatching(/^data:/),
+    });
+  });
+
+  it('should reject other files', async () => {
+    await expect(readFontFile(new File(['font'], 'font.otf'))).rejects.toThrow(
+      'Unsupported font file "font.otf"',
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getLineMapping,
+  getLineNumbers,
+  getTransitionLineNumbers,
+} from '../gutter';
+import { getFoldLayout } from '../fold';
+import { createMutation } from '../../transition/mutation';
+import { tokenize } from '../../../test-utils';
+
+describe('getLineMapping', () => {
+  it('should pair the kept lines and leave the inserted ones', () => {
+    const mutation = createMutation(
+      tokenize('a\nb\nc'),
+      tokenize('a\nadded\nb\nc'),
+    );
+
+    expect(getLineMapping(mutation, 4)).toEqual([0, null, 1, 2]);
+  });
+});
+
+describe('getLineNumbers', () => {
+  it('should number every line', () => {
+    expect(
+      getLineNumbers({ linesCount: 2, activeLines: [false, true] }, 20),
+    ).toEqual([
+      { key: 'to:1', number: 1, y: 0, alpha: 1, active: 0 },
+      { key: 'to:2', number: 2, y: 20, alpha: 1, active: 1 },
+    ]);
+  });
+});
+
+describe('getTransitionLineNumbers', () => {
+  const frameOf = (
+    frames: ReturnType<typeof getTransitionLineNumbers>,
+    key: string,
+  ) => frames.find((frame) => frame.key === key);
+
+  it('should keep the numbers of lines staying in place', () => {
+    const frames = getTransitionLineNumbers(
+      [0],
+      { linesCount: 1 },
+      { linesCount: 1 },
+      20,
+      0.5,
+    );
+
+    expect(frames).toEqual([
+      { key: 'to:1', number: 1, y: 0, alpha: 1, active: 0 },
+    ]);
+  });
+
+  it('should move and cross fade renumbered lines', () => {
+    const frames = getTransitionLineNumbers(
+      [0, null, 1],
+      { linesCount: 2 },
+      { linesCount: 3 },
+      20,
+      0.25,
+    );
+
+    expect(frameOf(frames, 'from:2')).toMatchObject({ y: 25, alpha: 0.75 });
+    expect(frameOf(frames, 'to:3')).toMatchObject({ y: 25, alpha: 0.25 });
+  });
+
+  it('should fade in inserted lines', () => {
+    const frames = getTransitionLineNumbers(
+      [0, null, 1],
+      { linesCount: 2 },
+      { linesCount: 3 },
+      20,
+      0.25,
+    );
+
+    expect(frameOf(frames, 'to:2')).toMatchObject({ y: 20, alpha: 0.25 });
+  });
+
+  it('should fade out deleted lines', () => {
+    const frames = getTransitionLineNumbers(
+      [0],
+      { linesCount: 3 },
+      { linesCount: 1 },
+      20,
+      0.25,
+    );
+
+    expect(frameOf(frames, 'from:2')).toMatchObject({ y: 20, alpha: 0.75 });
+    expect(frameOf(frames, 'from:3')).toMatchObject({ y: 40, alpha: 0.75 });
+  });
+
+  it('should blend the active state', () => {
+    const frames = getTransitionLineNumbers(
+      [0],
+      { linesCount: 1, activeLines: [false] },
+      { linesCount: 1, activeLines: [true] },
+      20,
+      0.25,
+    );
+
+    expect(frames[0].active).toBe(0.25);
+  });
+
+  it('should hide the numbers of collapsed lines', () => {
+    const fold = getFoldLayout('a\nb\nc', [{ startLine: 2, endLine: 2 }]);
+    const frames = getTransitionLineNumbers(
+      [0, 1, 2],
+      { linesCount: 3 },
+      { linesCount: 3, fold },
+      20,
+      0.25,
+    );
+
+    expect(frameOf(frames, 'to:2')).toMatchObject({ y: 20, alpha: 0.75 });
+    expect(frameOf(frames, 'to:3')).toMatchObject({ y: 40, alpha: 1 });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatLineSpans,
+  getHighlightBands,
+  getHighlightedLines,
+  getTokenOpacities,
+  interpolateHighlightBands,
+  parseLineSpans,
+} from '../highlight';
+import { getFoldLayout } from '../fold';
+import { tokenize } from '../../../test-utils';
+
+describe('getTokenOpacities', () => {
+  it('should keep every token without highlights', () => {
+    const tokens = tokenize('a\nb');
+
+    expect(getTokenOpacities(tokens, undefined)).toEqual(tokens.map(() => 1));
+    expect(getTokenOpacities(tokens, [])).toEqual(tokens.map(() => 1));
+  });
+
+  it('should dim the tokens outside the highlighted lines', () => {
+    const tokens = tokenize('a\nb\nc');
+    const opacities = getTokenOpacities(
+      tokens,
+      [{ startLine: 2, endLine: 2 }],
+      0.2,
+    );
+    const opacityOf = (value: string) =>
+      opacities[tokens.findIndex((token) => token.value.trim() === value)];
+
+    expect(opacityOf('a')).toBe(0.2);
+    expect(opacityOf('b')).toBe(1);
+    expect(opacityOf('c')).toBe(0.2);
+  });
+});
+
+describe('getHighlightBands', () => {
+  it('should cover the highlighted lines', () => {
+    expect(getHighlightBands([{ startLine: 3, endLine: 4 }], 20)).toEqual([
+      { y: 40, height: 40, alpha: 1 },
+    ]);
+  });
+});
+
+describe('interpolateHighlightBands', () => {
+  const band = { y: 0, height: 20, alpha: 1 };
+
+  it('should move the bands into each other', () => {
+    expect(
+      interpolateHighlightBands([band], [{ ...band, y: 40 }], 0.5),
+    ).toEqual([{ y: 20, height: 20, alpha: 1 }]);
+  });
+
+  it('should fade the bands without a counterpart', () => {
+    expect(interpolateHighlightBands([band], [], 0.25)).toEqual([
+      { ...band, alpha: 0.75 },
+    ]);
+    expect(interpolateHighlightBands([], [band], 0.25)).toEqual([
+      { ...band, alpha: 0.25 },
+    ]);
+  });
+});
+
+describe('parseLineSpans', () => {
+  it('should parse lines and ranges', () => {
+    expect(parseLineSpans('3-5, 8')).toEqual([
+      { startLine: 3, endLine: 5 },
+      { startLine: 8, endLine: 8 },
+    ]);
+  });
+
+  it('should ignore invalid parts and swap reversed ranges', () => {
+    expect(parseLineSpans('x, 0, 6-4,')).toEqual([
+      { startLine: 4, endLine: 6 },
+    ]);
+  });
+
+  it('should format the parsed ranges back', () => {
+    expect(formatLineSpans(parseLineSpans(' 3 - 5,8 '))).toBe('3-5, 8');
+  });
+});
+
+describe('getHighlightedLines', () => {
+  it('should flag the highlighted lines', () => {
+    expect(
+      getHighlightedLines(
+        [
+          { startLine: 2, endLine: 3 },
+          { startLine: 5, endLine: 5 },
+        ],
+        5,
+      ),
+    ).toEqual([false, true, true, false, true]);
+  });
+});
+
+describe('getHighlightBands with folded lines', () => {
+  const code = 'a\nb\nc\nd\ne';
+
+  it('should follow the displayed lines', () => {
+    const fold = getFoldLayout(code, [{ startLine: 2, endLine: 3 }]);
+
+    expect(getHighlightBands([{ startLine: 3, endLine: 5 }], 20, fold)).toEqual(
+      [{ y: 20, height: 60, alpha: 1 }],
+    );
+  });
+
+  it('should cover every row of wrapped lines', () => {
+    const fold = getFoldLayout(code, undefined, [1, 3, 1, 1, 1]);
+
+    expect(getHighlightBands([{ startLine: 2, endLine: 3 }], 20, fold)).toEqual(
+      [{ y: 20, height: 80, alpha: 1 }],
+    );
+  });
+});
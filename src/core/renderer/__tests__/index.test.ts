@@ -2,6 +2,16 @@ import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import { MovieRenderer } from '../index';
 import { type RawDoc } from '../../doc/raw-doc';
 import { Language } from '../../code-languages/languages';
+import { type Callout, CalloutType } from '../../doc/callout';
+import {
+  type TextOptions,
+  CanvasTextMetrics,
+  Graphics,
+  Text,
+  TextStyle,
+} from 'pixi.js';
+import { Theme } from '../../theme/index';
+import { FOLD_PLACEHOLDER } from '../fold';
 
 // Mock PIXI.js
 vi.mock('pixi.js', () => ({
@@ -13,6 +23,7 @@ vi.mock('pixi.js', () => ({
     render: vi.fn(),
     renderer: {
       resize: vi.fn(),
+      background: { color: '#000' },
     },
   })),
   BitmapFontManager: {
@@ -24,6 +35,9 @@ vi.mock('pixi.js', () => ({
     })),
   },
   TextStyle: vi.fn(),
+  CanvasTextMetrics: {
+    measureText: vi.fn(() => ({ width: 12 })),
+  },
   Text: vi.fn(() => ({
     style: {},
     text: '',
@@ -43,6 +57,22 @@ vi.mock('pixi.js', () => ({
     x: 0,
     y: 0,
   })),
+  Graphics: vi.fn(() => {
+    const graphics = {
+      clear: vi.fn(() => graphics),
+      rect: vi.fn(() => graphics),
+      roundRect: vi.fn(() => graphics),
+      poly: vi.fn(() => graphics),
+      moveTo: vi.fn(() => graphics),
+      lineTo: vi.fn(() => graphics),
+      fill: vi.fn(() => graphics),
+      stroke: vi.fn(() => graphics),
+      x: 0,
+      y: 0,
+      alpha: 1,
+    };
+    return graphics;
+  }),
 }));
 
 // Mock d3-ease
@@ -96,6 +126,11 @@ vi.mock('../../doc/doc', () => ({
         { value: ';', types: [] },
       ],
       linesCount: 1,
+      code: snapshot.code,
+      highlights: snapshot.highlights ?? [],
+      callouts: snapshot.callouts ?? [],
+      focus: snapshot.camera?.focus,
+      collapsed: snapshot.collapsed ?? [],
     })),
     transitions: [
       {
@@ -122,6 +157,7 @@ vi.mock('../../theme/index', () => ({
     getTheme: vi.fn(() => ({
       data: {
         fontFace: 'monospace',
+        color: '#ffffff',
         fontSize: 16,
         lineHeight: 20,
       },
@@ -130,6 +166,19 @@ vi.mock('../../theme/index', () => ({
   },
 }));
 
+/**
+ * The texts created for a value, the mocked texts do not keep their options
+ */
+function getTexts(value: string) {
+  const { calls, results } = vi.mocked(Text).mock;
+
+  return calls.flatMap(([options], index) =>
+    (options as TextOptions | undefined)?.text === value
+      ? [results[index].value as Text]
+      : [],
+  );
+}
+
 describe('MovieRenderer', () => {
   let canvas: HTMLCanvasElement;
   let renderer: MovieRenderer;
@@ -296,6 +345,177 @@ describe('MovieRenderer', () => {
       expect(renderFinalTransitionSpy).toHaveBeenCalled();
     });
 
+    it('should render callouts with their snapshots', () => {
+      const callout: Callout = {
+        id: 'callout',
+        type: CalloutType.BUBBLE,
+        text: 'Changed',
+        anchor: { startLine: 1, endLine: 1 },
+      };
+      renderer.setDoc({
+        ...mockRawDoc,
+        snapshots: mockRawDoc.snapshots.map((snapshot) => ({
+          ...snapshot,
+          callouts: [callout],
+        })),
+      });
+
+      renderer.render(500);
+      const [label] = getTexts('Changed');
+
+      expect(label.alpha).toBe(1);
+      const drawnBubble = vi
+        .mocked(Graphics)
+        .mock.results.some(
+          ({ value }) => vi.mocked(value.roundRect).mock.calls.length > 0,
+        );
+      expect(drawnBubble).toBe(true);
+    });
+
+    it('should fade out the callouts the next snapshot drops', () => {
+      renderer.setDoc({
+        ...mockRawDoc,
+        snapshots: mockRawDoc.snapshots.map((snapshot, index) => ({
+          ...snapshot,
+          callouts: index
+            ? []
+            : [
+                {
+                  id: 'callout',
+                  type: CalloutType.BUBBLE,
+                  text: 'Removed',
+                  anchor: { startLine: 1, endLine: 1 },
+                },
+              ],
+        })),
+      });
+      renderer.render(750);
+      const [label] = getTexts('Removed');
+
+      expect(label.alpha).toBeGreaterThan(0);
+      expect(label.alpha).toBeLessThan(1);
+    });
+
+    it('should render the line numbers in the gutter', () => {
+      vi.mocked(Theme.getTheme).mockReturnValueOnce({
+        data: {
+          fontFace: 'monospace',
+          color: '#ffffff',
+          lineNumberColor: '#000000',
+          activeLineNumberColor: '#ffffff',
+        },
+        getTypesStyle: vi.fn(() => ({ color: '#ffffff' })),
+      } as unknown as Theme);
+      renderer.setDoc({
+        ...mockRawDoc,
+        lineNumbers: true,
+        snapshots: mockRawDoc.snapshots.map((snapshot) => ({
+          ...snapshot,
+          highlights: [{ startLine: 1, endLine: 1 }],
+        })),
+      });
+      renderer.render(500);
+      // Line numbers are drawn before the token `1`
+      const [firstNumber] = getTexts('1');
+      const [secondNumber] = getTexts('2');
+      const [keyword] = getTexts('const');
+
+      // One digit and two spaces of 10px
+      expect(keyword.x).toBe(30);
+      expect(firstNumber).toMatchObject({ x: 0, y: 0, tint: '#ffffff' });
+      expect(secondNumber).toMatchObject({ x: 0, y: 20, tint: '#000000' });
+    });
+
+    it('should fold collapsed lines into a placeholder', () => {
+      renderer.setDoc({
+        ...mockRawDoc,
+        snapshots: mockRawDoc.snapshots.map((snapshot) => ({
+          ...snapshot,
+          collapsed: [{ startLine: 1, endLine: 1 }],
+        })),
+      });
+      renderer.render(500);
+      const [placeholder] = getTexts(FOLD_PLACEHOLDER);
+
+      expect(placeholder).toMatchObject({ x: 0, y: 0, alpha: 1 });
+      expect(getTexts('const')[0].alpha).toBe(0);
+    });
+
+    it('should wrap long lines at token boundaries', () => {
+      // Rows are 100px wide, `const a = ` fills the first row
+      renderer.setDoc({ ...mockRawDoc, width: 120, wordWrap: true });
+      renderer.render(500);
+
+      expect(getTexts('const')[0]).toMatchObject({ x: 0, y: 0 });
+      expect(getTexts('1')[0]).toMatchObject({ x: 0, y: 20 });
+      expect(getTexts(';')[0]).toMatchObject({ x: 10, y: 20 });
+    });
+
+    it('should apply the font and background of token styles', () => {
+      vi.mocked(Theme.getTheme).mockReturnValueOnce({
+        data: { fontFace: 'monospace', color: '#ffffff' },
+        getTypesStyle: vi.fn(() => ({
+          color: '#ffffff',
+          fontWeight: 'bold',
+          fontStyle: 'italic',
+          backgroundColor: '#333333',
+        })),
+      } as unknown as Theme);
+      renderer.setDoc({ ...mockRawDoc });
+      renderer.render(0);
+
+      expect(TextStyle).toHaveBeenCalledWith(
+        expect.objectContaining({ fontWeight: 'bold', fontStyle: 'italic' }),
+      );
+      const drawnBackground = vi
+        .mocked(Graphics)
+        .mock.results.some(
+          ({ value }) => vi.mocked(value.roundRect).mock.calls.length > 0,
+        );
+      expect(drawnBackground).toBe(true);
+    });
+
+    it('should measure with the doc font once it is loaded', async () => {
+      vi.stubGlobal(
+        'FontFace',
+        vi.fn(() => ({ load: vi.fn().mockResolvedValue({}) })),
+      );
+      Object.defineProperty(document, 'fonts', {
+        value: { add: vi.fn() },
+        configurable: true,
+      });
+
+      renderer.setDoc({
+        ...mockRawDoc,
+        font: { family: 'Fira Code', source: 'data:font/woff2;base64,AA' },
+      });
+      await renderer.readyPromise;
+      renderer.render(0);
+
+      expect(CanvasTextMetrics.measureText).toHaveBeenCalled();
+      vi.unstubAllGlobals();
+    });
+
+    it('should fall back to the theme font when the doc font fails', async () => {
+      vi.stubGlobal(
+        'FontFace',
+        vi.fn(() => ({ load: vi.fn().mockRejectedValue(new Error('broken')) })),
+      );
+
+      renderer.setDoc({
+        ...mockRawDoc,
+        font: { family: 'Broken', source: 'data:font/woff2;base64,AA' },
+      });
+      await renderer.readyPromise;
+      vi.mocked(CanvasTextMetrics.measureText).mockClear();
+      renderer.render(0);
+
+      expect(renderer.fontError?.message).toContain('Broken');
+      expect(CanvasTextMetrics.measureText).not.toHaveBeenCalled();
+      await expect(renderer.waitForExport()).rejects.toThrow('Broken');
+      vi.unstubAllGlobals();
+    });
+
     it('should update current time after render', () => {
       const time = 500;
       renderer.render(time);
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { wrapTokens } from '../wrap';
+import { measureTextWidth, tokenize } from '../../../test-utils';
+
+// Every character is 10 wide
+
+function getRows(code: string, maxWidth?: number) {
+  const tokens = tokenize(code);
+  const { tokens: wraps } = wrapTokens(tokens, measureTextWidth, maxWidth);
+
+  return tokens.map(({ value }, index) => ({ value, ...wraps[index] }));
+}
+
+describe('wrapTokens', () => {
+  it('should keep the lines without a max width', () => {
+    const { rowsCounts } = wrapTokens(
+      tokenize('aaaa bbbb cccc\ndd'),
+      measureTextWidth,
+    );
+
+    expect(rowsCounts).toEqual([1, 1]);
+  });
+
+  it('should break lines at token boundaries', () => {
+    const rows = getRows('aaaa bbbb cccc', 100);
+    const rowOf = (value: string) =>
+      rows.find((token) => token.value === value)!;
+
+    expect(rowOf('aaaa')).toMatchObject({ row: 0, x: 0, shift: 0 });
+    expect(rowOf('bbbb')).toMatchObject({ row: 0, x: 50 });
+    expect(rowOf('cccc')).toMatchObject({ row: 1, x: 0, shift: 100 });
+  });
+
+  it('should keep the indentation of the line', () => {
+    const rows = getRows('a\n  bbbb cccc dddd', 100);
+    const rowOf = (value: string) =>
+      rows.find((token) => token.value === value)!;
+
+    expect(rowOf('cccc')).toMatchObject({ line: 1, row: 1, x: 20 });
+    expect(rowOf('dddd')).toMatchObject({ line: 1, row: 2, x: 20 });
+    expect(
+      wrapTokens(tokenize('a\n  bbbb cccc dddd'), measureTextWidth, 100)
+        .rowsCounts,
+    ).toEqual([1, 3]);
+  });
+
+  it('should let tokens wider than a row overflow', () => {
+    const { rowsCounts } = wrapTokens(
+      tokenize('abcdefghijklmnop'),
+      measureTextWidth,
+      100,
+    );
+
+    expect(rowsCounts).toEqual([1]);
+  });
+});
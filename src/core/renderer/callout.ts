@@ -0,0 +1,230 @@
+import { CalloutType } from '../doc/callout';
+import { type CodeRange } from '../doc/raw-doc';
+import { type BaseStyles } from '../theme/types';
+import { type Token } from '../tokenize/index';
+import { getTokenLocations } from '../transition/stagger';
+import { type Position } from '../../types/base';
+import { type CameraRect } from './camera';
+
+export interface CalloutStyle {
+  backgroundColor: string;
+  color: string;
+  accentColor: string;
+}
+
+/**
+ * Where a token is drawn in the current frame
+ */
+export interface AnchorTokenState extends Position {
+  width: number;
+  alpha: number;
+}
+
+export interface AnchorRect extends CameraRect {
+  alpha: number;
+}
+
+export interface CalloutLayout {
+  /**
+   * Position of the label text
+   */
+  label: Position;
+  /**
+   * Background of the label, only bubbles fill it
+   */
+  box: CameraRect;
+  /**
+   * The tail of a bubble, the line of an arrow, or the wave of a squiggle
+   */
+  pointer: Position[];
+}
+
+export function getCalloutStyle(data: BaseStyles): CalloutStyle {
+  return {
+    backgroundColor: data.calloutBackgroundColor ?? data.backgroundColor,
+    color: data.calloutColor ?? data.color,
+    accentColor: data.calloutAccentColor ?? data.color,
+  };
+}
+
+/**
+ * Get the tokens a callout is attached to, whitespace tokens are skipped
+ * @param tokens
+ * @param anchor
+ * @returns Token indexes
+ */
+export function getAnchorTokenIndexes(
+  tokens: Token[],
+  { startLine, endLine, startColumn, endColumn }: CodeRange,
+): number[] {
+  const locations = getTokenLocations(tokens);
+
+  return tokens.flatMap(({ value }, index) => {
+    const { line, column } = locations[index];
+    const firstLine = value.split('\n')[0];
+    if (!firstLine.trim()) return [];
+    if (line < startLine - 1 || line > endLine - 1) return [];
+    if (
+      startColumn != null &&
+      line === startLine - 1 &&
+      column + firstLine.length <= startColumn - 1
+    ) {
+      return [];
+    }
+    if (endColumn != null && line === endLine - 1 && column >= endColumn) {
+      return [];
+    }
+
+    return [index];
+  });
+}
+
+/**
+ * Get the bounds of the anchor tokens in the current frame,
+ * the callout is as visible as its most visible token
+ * @param indexes From `getAnchorTokenIndexes`
+ * @param states The tokens of the snapshot
+ * @param lineHeight
+ * @returns `null` when no anchor token is drawn
+ */
+export function getAnchorRect(
+  indexes: number[],
+  states: (AnchorTokenState | undefined)[],
+  lineHeight: number,
+): AnchorRect | null {
+  const anchorStates = indexes.flatMap((index) =>
+    states[index] ? [states[index]] : [],
+  );
+  if (!anchorStates.length) return null;
+
+  const x = Math.min(...anchorStates.map((state) => state.x));
+  const y = Math.min(...anchorStates.map((state) => state.y));
+
+  return {
+    x,
+    y,
+    width: Math.max(...anchorStates.map((state) => state.x + state.width)) - x,
+    height: Math.max(...anchorStates.map((state) => state.y)) + lineHeight - y,
+    alpha: Math.max(...anchorStates.map((state) => state.alpha)),
+  };
+}
+
+export function interpolateAnchorRect(
+  from: AnchorRect,
+  to: AnchorRect,
+  progress: number,
+): AnchorRect {
+  const mix = (a: number, b: number) => a + (b - a) * progress;
+
+  return {
+    x: mix(from.x, to.x),
+    y: mix(from.y, to.y),
+    width: mix(from.width, to.width),
+    height: mix(from.height, to.height),
+    alpha: mix(from.alpha, to.alpha),
+  };
+}
+
+/**
+ * Get the points of a wave under a range
+ * @param x
+ * @param y The middle of the wave
+ * @param width
+ * @param amplitude
+ * @returns
+ */
+export function getSquigglePoints(
+  x: number,
+  y: number,
+  width: number,
+  amplitude: number,
+): Position[] {
+  const step = amplitude * 2;
+  const count = Math.max(1, Math.round(width / step));
+  const points: Position[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    points.push({
+      x: x + (width * i) / count,
+      y: y + (i % 2 === 0 ? amplitude : -amplitude),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Place the label and the pointer of a callout around its anchor.
+ * Bubbles float above the anchor, or below it on the first lines,
+ * arrows point from the right and squiggles underline the anchor
+ * @param type
+ * @param anchor
+ * @param labelSize
+ * @param padding Space around the label, and the size of the pointers
+ * @returns
+ */
+export function layoutCallout(
+  type: CalloutType,
+  anchor: CameraRect,
+  labelSize: { width: number; height: number },
+  padding: number,
+): CalloutLayout {
+  const boxWidth = labelSize.width + padding * 2;
+  const boxHeight = labelSize.height + padding * 2;
+  const centerX = anchor.x + anchor.width / 2;
+  const centerY = anchor.y + anchor.height / 2;
+
+  const layoutBox = (x: number, y: number): CalloutLayout['box'] => ({
+    x,
+    y,
+    width: boxWidth,
+    height: boxHeight,
+  });
+
+  switch (type) {
+    case CalloutType.ARROW: {
+      const arrowEnd = anchor.x + anchor.width + padding;
+      const box = layoutBox(arrowEnd + padding * 6, centerY - boxHeight / 2);
+
+      return {
+        label: { x: box.x + padding, y: box.y + padding },
+        box,
+        pointer: [
+          { x: box.x, y: centerY },
+          { x: arrowEnd, y: centerY },
+        ],
+      };
+    }
+    case CalloutType.SQUIGGLE: {
+      const waveY = anchor.y + anchor.height;
+      const box = layoutBox(anchor.x - padding, waveY);
+
+      return {
+        label: { x: box.x + padding, y: box.y + padding },
+        box,
+        pointer: getSquigglePoints(anchor.x, waveY, anchor.width, padding / 2),
+      };
+    }
+    case CalloutType.BUBBLE:
+    default: {
+      const above = anchor.y >= boxHeight + padding;
+      const box = layoutBox(
+        centerX - boxWidth / 2,
+        above
+          ? anchor.y - padding - boxHeight
+          : anchor.y + anchor.height + padding,
+      );
+      const tailY = above ? box.y + boxHeight : box.y;
+
+      return {
+        label: { x: box.x + padding, y: box.y + padding },
+        box,
+        pointer: [
+          { x: centerX - padding, y: tailY },
+          { x: centerX + padding, y: tailY },
+          { x: centerX, y: above ? anchor.y : anchor.y + anchor.height },
+        ],
+      };
+    }
+  }
+}
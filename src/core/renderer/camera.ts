@@ -0,0 +1,219 @@
+import { clamp } from '../../utils/number';
+import { type MovMutation } from '../transition/mutation';
+import { type Token } from '../tokenize/index';
+
+/**
+ * `[start, end]` line numbers (0 based), both inclusive
+ */
+export type LineRange = [start: number, end: number];
+
+export interface CameraViewport {
+  /**
+   * Height of the canvas
+   */
+  height: number;
+  lineHeight: number;
+  linesCount: number;
+  paddingTop: number;
+  paddingBottom: number;
+}
+
+/**
+ * Get the line (0 based) each token starts on
+ * @param tokens
+ * @returns
+ */
+export function getTokenLines(tokens: Token[]) {
+  const lines: number[] = [];
+  let line = 0;
+
+  for (const { value } of tokens) {
+    lines.push(line);
+    line += value.match(/\n/g)?.length ?? 0;
+  }
+
+  return lines;
+}
+
+/**
+ * Get the lines of the `to` code touched by a mutation,
+ * deletions count for the line they are deleted from
+ * @param mutation
+ * @returns `null` when nothing changes
+ */
+export function getChangedLineRange({
+  right,
+  diffs,
+}: MovMutation): LineRange | null {
+  const rightLines = getTokenLines(right);
+  let range: LineRange | null = null;
+  // Where the code after the last `to` token continues
+  let endLine = 0;
+
+  for (const { leftIndex, rightIndex, moved, morph } of diffs) {
+    let line = endLine;
+    if (rightIndex != null) {
+      line = rightLines[rightIndex];
+      endLine = line + (right[rightIndex].value.match(/\n/g)?.length ?? 0);
+    }
+    const changed = leftIndex == null || rightIndex == null || moved || morph;
+    if (!changed) continue;
+
+    range = range
+      ? [Math.min(range[0], line), Math.max(range[1], line)]
+      : [line, line];
+  }
+
+  return range;
+}
+
+/**
+ * The scroll offsets the content can take, the content is centered
+ * when it fits into the canvas
+ */
+export function getScrollBounds({
+  height,
+  lineHeight,
+  linesCount,
+  paddingTop,
+  paddingBottom,
+}: CameraViewport) {
+  const heightWithPaddings =
+    linesCount * lineHeight + paddingTop + paddingBottom;
+
+  return {
+    minScrollTop: Math.min(0, (heightWithPaddings - height) / 2),
+    maxScrollTop: Math.max(0, heightWithPaddings - height),
+  };
+}
+
+/**
+ * Get the scroll offset that keeps a range of lines in view,
+ * the range is centered, or aligned to the top when it is taller than the canvas
+ * @param range
+ * @param viewport
+ * @returns
+ */
+export function getFocusScrollTop(
+  [start, end]: LineRange,
+  viewport: CameraViewport,
+) {
+  const { height, lineHeight, paddingTop } = viewport;
+  const { minScrollTop, maxScrollTop } = getScrollBounds(viewport);
+  if (maxScrollTop === 0) {
+    return minScrollTop;
+  }
+
+  const rangeTop = paddingTop + start * lineHeight;
+  const rangeHeight = (end - start + 1) * lineHeight;
+  const scrollTop =
+    rangeHeight > height - paddingTop
+      ? rangeTop - paddingTop
+      : rangeTop + rangeHeight / 2 - height / 2;
+
+  return clamp(scrollTop, 0, maxScrollTop);
+}
+
+/**
+ * Get the scroll offset that puts a line at the top of the canvas
+ * @param line 0 based
+ * @param viewport
+ * @returns
+ */
+export function getLineScrollTop(line: number, viewport: CameraViewport) {
+  const { minScrollTop, maxScrollTop } = getScrollBounds(viewport);
+  if (maxScrollTop === 0) {
+    return minScrollTop;
+  }
+
+  return clamp(line * viewport.lineHeight, 0, maxScrollTop);
+}
+
+/**
+ * Translate and scale of the texts container
+ */
+export interface CameraState {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Bounds in the coordinates of the texts container
+ */
+export interface CameraRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_CAMERA_ZOOM = 0.25;
+
+export const MAX_CAMERA_ZOOM = 4;
+
+/**
+ * Scale a camera around the center of the canvas
+ * @param state
+ * @param zoom
+ * @param canvas
+ * @returns
+ */
+export function zoomCameraState(
+  { x, y, scale }: CameraState,
+  zoom: number,
+  canvas: { width: number; height: number },
+): CameraState {
+  const centerX = canvas.width / 2;
+  const centerY = canvas.height / 2;
+
+  return {
+    x: centerX - (centerX - x) * zoom,
+    y: centerY - (centerY - y) * zoom,
+    scale: scale * zoom,
+  };
+}
+
+/**
+ * Center a rect in the canvas, and scale it to fit the canvas
+ * when no zoom is given
+ * @param rect
+ * @param canvas
+ * @param margin Space kept around the rect when fitting it
+ * @param zoom
+ * @returns
+ */
+export function getFocusCameraState(
+  rect: CameraRect,
+  canvas: { width: number; height: number },
+  margin: number,
+  zoom?: number,
+): CameraState {
+  const scale = clamp(
+    zoom ??
+      Math.min(
+        (canvas.width - margin * 2) / Math.max(rect.width, 1),
+        (canvas.height - margin * 2) / Math.max(rect.height, 1),
+      ),
+    MIN_CAMERA_ZOOM,
+    MAX_CAMERA_ZOOM,
+  );
+
+  return {
+    x: canvas.width / 2 - (rect.x + rect.width / 2) * scale,
+    y: canvas.height / 2 - (rect.y + rect.height / 2) * scale,
+    scale,
+  };
+}
+
+export function interpolateCameraState(
+  from: CameraState,
+  to: CameraState,
+  progress: number,
+): CameraState {
+  return {
+    x: from.x + (to.x - from.x) * progress,
+    y: from.y + (to.y - from.y) * progress,
+    scale: from.scale + (to.scale - from.scale) * progress,
+  };
+}
@@ -0,0 +1,143 @@
+import { type LineSpan } from '../doc/raw-doc';
+
+/**
+ * The text of the line collapsed lines are folded into
+ */
+export const FOLD_PLACEHOLDER = '⋯';
+
+export interface FoldPlaceholder {
+  /**
+   * The displayed line of the placeholder, 0 based
+   */
+  line: number;
+  /**
+   * The indentation of the first collapsed line, the placeholder is indented the same
+   */
+  indent: string;
+}
+
+/**
+ * Where the lines of a snapshot are displayed once the collapsed ones are folded
+ * and the long ones are wrapped
+ */
+export interface FoldLayout {
+  /**
+   * The displayed line (0 based) of each line, collapsed lines sit on their placeholder
+   */
+  displayLines: number[];
+  /**
+   * The last displayed line of each line, wrapped lines take several
+   */
+  lastDisplayLines: number[];
+  collapsedLines: boolean[];
+  placeholders: FoldPlaceholder[];
+  displayLinesCount: number;
+}
+
+/**
+ * A placeholder drawn in the current frame
+ */
+export interface PlaceholderFrame {
+  y: number;
+  alpha: number;
+  indent: string;
+}
+
+/**
+ * Fold the collapsed lines, touching ranges share one placeholder
+ * @param code
+ * @param collapsed
+ * @param rowsCounts The count of rows each line takes when wrapped
+ * @returns
+ */
+export function getFoldLayout(
+  code: string,
+  collapsed: LineSpan[] | undefined,
+  rowsCounts: number[] = [],
+): FoldLayout {
+  const lines = code.split('\n');
+  const linesCount = lines.length;
+  const collapsedLines = Array.from({ length: linesCount }, (_, line) =>
+    (collapsed ?? []).some(
+      ({ startLine, endLine }) => line >= startLine - 1 && line <= endLine - 1,
+    ),
+  );
+  const displayLines: number[] = [];
+  const lastDisplayLines: number[] = [];
+  const placeholders: FoldPlaceholder[] = [];
+  let displayLine = 0;
+
+  for (let line = 0; line < linesCount; line++) {
+    if (!collapsedLines[line]) {
+      displayLines.push(displayLine);
+      displayLine += rowsCounts[line] ?? 1;
+      lastDisplayLines.push(displayLine - 1);
+      continue;
+    }
+
+    if (!collapsedLines[line - 1]) {
+      placeholders.push({
+        line: displayLine++,
+        indent: /^\s*/.exec(lines[line])![0],
+      });
+    }
+    displayLines.push(placeholders[placeholders.length - 1].line);
+    lastDisplayLines.push(placeholders[placeholders.length - 1].line);
+  }
+
+  return {
+    displayLines,
+    lastDisplayLines,
+    collapsedLines,
+    placeholders,
+    displayLinesCount: displayLine,
+  };
+}
+
+/**
+ * Move the placeholders of two snapshots into each other in order,
+ * the placeholders without a counterpart fade out or in
+ * @param from
+ * @param to
+ * @param lineHeight
+ * @param progress
+ * @returns
+ */
+export function interpolatePlaceholders(
+  from: FoldPlaceholder[],
+  to: FoldPlaceholder[],
+  lineHeight: number,
+  progress: number,
+): PlaceholderFrame[] {
+  const frames: PlaceholderFrame[] = [];
+
+  for (let i = 0; i < Math.max(from.length, to.length); i++) {
+    const fromPlaceholder = from[i];
+    const toPlaceholder = to[i];
+
+    if (fromPlaceholder && toPlaceholder) {
+      frames.push({
+        y:
+          (fromPlaceholder.line +
+            (toPlaceholder.line - fromPlaceholder.line) * progress) *
+          lineHeight,
+        alpha: 1,
+        indent: (progress < 0.5 ? fromPlaceholder : toPlaceholder).indent,
+      });
+    } else if (fromPlaceholder) {
+      frames.push({
+        y: fromPlaceholder.line * lineHeight,
+        alpha: 1 - progress,
+        indent: fromPlaceholder.indent,
+      });
+    } else {
+      frames.push({
+        y: toPlaceholder.line * lineHeight,
+        alpha: progress,
+        indent: toPlaceholder.indent,
+      });
+    }
+  }
+
+  return frames;
+}
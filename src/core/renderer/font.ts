@@ -0,0 +1,85 @@
+import { type DocFont } from '../doc/raw-doc';
+
+/**
+ * Extensions of the font files that can be uploaded
+ */
+export const FONT_FILE_EXTENSIONS = ['.woff2', '.ttf'];
+
+const fontLoads = new Map<string, Promise<void>>();
+
+const loadedFonts = new Set<string>();
+
+function getFontKey({ family, source }: DocFont) {
+  return `${family}:${source}`;
+}
+
+export function isDocFontLoaded(font: DocFont) {
+  return loadedFonts.has(getFontKey(font));
+}
+
+/**
+ * Load an uploaded font through the FontFace API and add it to the document,
+ * a font is only loaded once, failed loads are tried again the next time
+ * @param font
+ * @returns Rejects when the font cannot be loaded, so exports never fall back silently
+ */
+export function loadDocFont(font: DocFont) {
+  const key = getFontKey(font);
+  let loading = fontLoads.get(key);
+
+  if (!loading) {
+    loading = new FontFace(font.family, `url(${font.source})`).load().then(
+      (face) => {
+        document.fonts.add(face);
+        loadedFonts.add(key);
+      },
+      (error: unknown) => {
+        fontLoads.delete(key);
+        throw new Error(
+          `Failed to load the font "${font.family}": ${String(error)}`,
+        );
+      },
+    );
+    fontLoads.set(key, loading);
+  }
+
+  return loading;
+}
+
+/**
+ * The font family of texts, the font of the theme is the fallback
+ * @param font
+ * @param fallback
+ */
+export function getFontFamily(font: DocFont | undefined, fallback: string) {
+  return font ? `${font.family}, ${fallback}` : fallback;
+}
+
+/**
+ * Read an uploaded WOFF2 or TTF file, the family is named after the file
+ * @param file
+ * @returns
+ */
+export function readFontFile(file: File): Promise<DocFont> {
+  const extension = FONT_FILE_EXTENSIONS.find((extension) =>
+    file.name.toLowerCase().endsWith(extension),
+  );
+  if (!extension) {
+    return Promise.reject(
+      new Error(
+        `Unsupported font file "${file.name}", use ${FONT_FILE_EXTENSIONS.join(' or ')}`,
+      ),
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        family: file.name.slice(0, -extension.length),
+        source: reader.result as string,
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,176 @@
+import { type MovMutation } from '../transition/mutation';
+import { getTokenLines } from './camera';
+import { type FoldLayout } from './fold';
+
+/**
+ * A line number drawn in the current frame
+ */
+export interface LineNumberFrame {
+  /**
+   * Identify the text of the number, numbers of the `from` and `to` snapshots never share one
+   */
+  key: string;
+  /**
+   * 1 based
+   */
+  number: number;
+  y: number;
+  alpha: number;
+  /**
+   * How much the number takes the active color, from `0` to `1`
+   */
+  active: number;
+}
+
+/**
+ * Get the line of the `from` code each line of the `to` code comes from,
+ * lines are paired by their first kept token
+ * @param mutation
+ * @returns `null` for inserted lines, in the order of the `to` lines
+ */
+export function getLineMapping(
+  { left, right, diffs }: MovMutation,
+  rightLinesCount: number,
+): (number | null)[] {
+  const leftLines = getTokenLines(left);
+  const rightLines = getTokenLines(right);
+  const mapping: (number | null)[] = Array.from(
+    { length: rightLinesCount },
+    () => null,
+  );
+
+  for (const { leftIndex, rightIndex } of diffs) {
+    if (leftIndex == null || rightIndex == null) continue;
+    if (!right[rightIndex].value.trim()) continue;
+
+    const rightLine = rightLines[rightIndex];
+    mapping[rightLine] ??= leftLines[leftIndex];
+  }
+
+  return mapping;
+}
+
+/**
+ * The lines of a snapshot in the gutter
+ */
+export interface GutterLines {
+  linesCount: number;
+  /**
+   * Lines (0 based) drawn in the active color
+   */
+  activeLines?: boolean[];
+  /**
+   * Numbers of collapsed lines are hidden on their placeholder
+   */
+  fold?: Pick<FoldLayout, 'displayLines' | 'collapsedLines'>;
+}
+
+function getLineY({ fold }: GutterLines, line: number, lineHeight: number) {
+  return (fold?.displayLines[line] ?? line) * lineHeight;
+}
+
+function getLineAlpha({ fold }: GutterLines, line: number) {
+  return fold?.collapsedLines[line] ? 0 : 1;
+}
+
+function getLineActive({ activeLines }: GutterLines, line: number) {
+  return activeLines?.[line] ? 1 : 0;
+}
+
+/**
+ * Get the line numbers of a snapshot
+ * @param lines
+ * @param lineHeight
+ * @returns
+ */
+export function getLineNumbers(
+  lines: GutterLines,
+  lineHeight: number,
+): LineNumberFrame[] {
+  return Array.from({ length: lines.linesCount }, (_, line) => ({
+    key: `to:${line + 1}`,
+    number: line + 1,
+    y: getLineY(lines, line, lineHeight),
+    alpha: getLineAlpha(lines, line),
+    active: getLineActive(lines, line),
+  }));
+}
+
+/**
+ * Get the line numbers in a transition, numbers move with their lines and
+ * cross fade when they change, the numbers of inserted lines fade in
+ * and the numbers of deleted lines fade out
+ * @param mapping From `getLineMapping`
+ * @param left The lines of the `from` snapshot
+ * @param right The lines of the `to` snapshot
+ * @param lineHeight
+ * @param progress
+ * @returns
+ */
+export function getTransitionLineNumbers(
+  mapping: (number | null)[],
+  left: GutterLines,
+  right: GutterLines,
+  lineHeight: number,
+  progress: number,
+): LineNumberFrame[] {
+  const frames: LineNumberFrame[] = [];
+  const keptLeftLines = new Set<number>();
+  const mix = (from: number, to: number) => from + (to - from) * progress;
+
+  mapping.forEach((leftLine, rightLine) => {
+    const rightFrame: LineNumberFrame = {
+      key: `to:${rightLine + 1}`,
+      number: rightLine + 1,
+      y: getLineY(right, rightLine, lineHeight),
+      alpha: getLineAlpha(right, rightLine) * progress,
+      active: getLineActive(right, rightLine),
+    };
+
+    if (leftLine == null || keptLeftLines.has(leftLine)) {
+      frames.push(rightFrame);
+      return;
+    }
+    keptLeftLines.add(leftLine);
+
+    const y = mix(getLineY(left, leftLine, lineHeight), rightFrame.y);
+    const active = mix(getLineActive(left, leftLine), rightFrame.active);
+    const leftAlpha = getLineAlpha(left, leftLine);
+    const rightAlpha = getLineAlpha(right, rightLine);
+
+    if (leftLine === rightLine) {
+      frames.push({
+        ...rightFrame,
+        y,
+        alpha: mix(leftAlpha, rightAlpha),
+        active,
+      });
+      return;
+    }
+
+    frames.push(
+      {
+        key: `from:${leftLine + 1}`,
+        number: leftLine + 1,
+        y,
+        alpha: leftAlpha * (1 - progress),
+        active,
+      },
+      { ...rightFrame, y, active },
+    );
+  });
+
+  for (let leftLine = 0; leftLine < left.linesCount; leftLine++) {
+    if (keptLeftLines.has(leftLine)) continue;
+
+    frames.push({
+      key: `from:${leftLine + 1}`,
+      number: leftLine + 1,
+      y: getLineY(left, leftLine, lineHeight),
+      alpha: getLineAlpha(left, leftLine) * (1 - progress),
+      active: getLineActive(left, leftLine),
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,151 @@
+import { type LineSpan } from '../doc/raw-doc';
+import { type Token } from '../tokenize/index';
+import { getTokenLines } from './camera';
+import { type FoldLayout } from './fold';
+
+/**
+ * Default opacity of the tokens outside the highlighted lines
+ */
+export const DEFAULT_DIM_OPACITY = 0.3;
+
+/**
+ * A band drawn behind highlighted lines, in the coordinates of the texts container
+ */
+export interface HighlightBand {
+  y: number;
+  height: number;
+  alpha: number;
+}
+
+/**
+ * Get the opacity of each token, the tokens starting on a highlighted line
+ * keep their opacity and the others are dimmed
+ * @param tokens
+ * @param highlights
+ * @param dimOpacity
+ * @returns
+ */
+export function getTokenOpacities(
+  tokens: Token[],
+  highlights: LineSpan[] | undefined,
+  dimOpacity = DEFAULT_DIM_OPACITY,
+): number[] {
+  if (!highlights?.length) {
+    return tokens.map(() => 1);
+  }
+
+  const tokenLines = getTokenLines(tokens);
+  const highlightedLines = getHighlightedLines(
+    highlights,
+    Math.max(0, ...tokenLines) + 1,
+  );
+
+  return tokenLines.map((line) => (highlightedLines[line] ? 1 : dimOpacity));
+}
+
+/**
+ * Get whether each line (0 based) is highlighted
+ * @param highlights
+ * @param linesCount
+ * @returns
+ */
+export function getHighlightedLines(
+  highlights: LineSpan[] | undefined,
+  linesCount: number,
+): boolean[] {
+  return Array.from({ length: linesCount }, (_, line) =>
+    (highlights ?? []).some(
+      ({ startLine, endLine }) => line >= startLine - 1 && line <= endLine - 1,
+    ),
+  );
+}
+
+/**
+ * Get the bands behind the highlighted lines
+ * @param highlights
+ * @param lineHeight
+ * @param fold Where the lines are displayed when some are folded or wrapped
+ * @returns
+ */
+export function getHighlightBands(
+  highlights: LineSpan[] | undefined,
+  lineHeight: number,
+  fold?: Pick<FoldLayout, 'displayLines' | 'lastDisplayLines'>,
+): HighlightBand[] {
+  return (highlights ?? []).map(({ startLine, endLine }) => {
+    const start = fold?.displayLines[startLine - 1] ?? startLine - 1;
+    const end = fold?.lastDisplayLines[endLine - 1] ?? endLine - 1;
+
+    return {
+      y: start * lineHeight,
+      height: Math.max(0, end - start + 1) * lineHeight,
+      alpha: 1,
+    };
+  });
+}
+
+/**
+ * Move the bands of two snapshots into each other in order,
+ * the bands without a counterpart fade out or in
+ * @param from
+ * @param to
+ * @param progress
+ * @returns
+ */
+export function interpolateHighlightBands(
+  from: HighlightBand[],
+  to: HighlightBand[],
+  progress: number,
+): HighlightBand[] {
+  const bands: HighlightBand[] = [];
+
+  for (let i = 0; i < Math.max(from.length, to.length); i++) {
+    const fromBand = from[i];
+    const toBand = to[i];
+
+    if (fromBand && toBand) {
+      bands.push({
+        y: fromBand.y + (toBand.y - fromBand.y) * progress,
+        height: fromBand.height + (toBand.height - fromBand.height) * progress,
+        alpha: fromBand.alpha + (toBand.alpha - fromBand.alpha) * progress,
+      });
+    } else if (fromBand) {
+      bands.push({ ...fromBand, alpha: fromBand.alpha * (1 - progress) });
+    } else {
+      bands.push({ ...toBand, alpha: toBand.alpha * progress });
+    }
+  }
+
+  return bands;
+}
+
+/**
+ * Parse line ranges written like `3-5, 8`, invalid parts are ignored
+ * @param text
+ * @returns
+ */
+export function parseLineSpans(text: string): LineSpan[] {
+  return text.split(',').flatMap((part) => {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!match) return [];
+
+    const startLine = parseInt(match[1]);
+    const endLine = match[2] ? parseInt(match[2]) : startLine;
+    if (startLine < 1) return [];
+
+    return [
+      {
+        startLine: Math.min(startLine, endLine),
+        endLine: Math.max(startLine, endLine),
+      },
+    ];
+  });
+}
+
+export function formatLineSpans(highlights: LineSpan[] = []) {
+  return highlights
+    .map(({ startLine, endLine }) =>
+      startLine === endLine ? `${startLine}` : `${startLine}-${endLine}`,
+    )
+    .join(', ');
+}
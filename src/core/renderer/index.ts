@@ -3,53 +3,219 @@ import {
   BitmapFontManager,
   TextStyle,
   Text,
+  CanvasTextMetrics,
+  type TextStyleFontStyle,
+  type TextStyleFontWeight,
   type TextStyleOptions,
   Container,
+  Graphics,
 } from 'pixi.js';
 import { easeQuadInOut } from 'd3-ease';
 import { assert } from '../../utils/assert';
+import { type Callout, CalloutType } from '../doc/callout';
 import { type Doc, createDoc } from '../doc/doc';
 import {
+  type CameraFocus,
   type RawDoc,
   getSnapshotAtTime,
   isOffsetTimeInTransition,
 } from '../doc/raw-doc';
 import {
-  // applyPositionTransition, // Unused for now
-  applyTransition,
+  applyPositionTransition,
   applyTransitionEffect,
   computeTransitionState,
   DEFAULT_TRANSITION_CONFIG,
+  getTransitionEase,
+  getTypesTransitionConfig,
+  type TransitionConfig,
+  TransitionEffectType,
 } from '../transition/transition';
-import { checkSafeForMonospaceFont, getLastLine } from '../../utils/string';
+import { getStaggerOrders, StaggerMode } from '../transition/stagger';
+import { getEasingFunction } from '../transition/easing';
+import {
+  type TypewriterLayout,
+  getInsertedRuns,
+  layoutTypewriter,
+} from '../transition/typewriter';
+import { checkSafeForMonospaceFont } from '../../utils/string';
 import { type Position } from '../../types/base';
 import { Theme } from '../theme/index';
-import { clamp01 } from '../../utils/number';
+import { type TokenTextStyle } from '../theme/types';
+import { clamp, clamp01 } from '../../utils/number';
 import { type Token } from '../tokenize';
 import { memoryOptimizer } from '../../utils/memory-optimizer';
+import { mixColors } from '../../utils/color';
+import {
+  type CameraRect,
+  type CameraState,
+  type CameraViewport,
+  getChangedLineRange,
+  getTokenLines,
+  getFocusCameraState,
+  getFocusScrollTop,
+  getLineScrollTop,
+  getScrollBounds,
+  interpolateCameraState,
+  zoomCameraState,
+} from './camera';
+import {
+  type HighlightBand,
+  getHighlightBands,
+  getHighlightedLines,
+  getTokenOpacities,
+  interpolateHighlightBands,
+} from './highlight';
+import {
+  type AnchorRect,
+  type AnchorTokenState,
+  getAnchorRect,
+  getAnchorTokenIndexes,
+  getCalloutStyle,
+  interpolateAnchorRect,
+  layoutCallout,
+} from './callout';
+import {
+  type GutterLines,
+  type LineNumberFrame,
+  getLineMapping,
+  getLineNumbers,
+  getTransitionLineNumbers,
+} from './gutter';
+import {
+  type FoldLayout,
+  type PlaceholderFrame,
+  FOLD_PLACEHOLDER,
+  getFoldLayout,
+  interpolatePlaceholders,
+} from './fold';
+import { type WrapLayout, wrapTokens } from './wrap';
+import { getFontFamily, isDocFontLoaded, loadDocFont } from './font';
 
 const ASSERT_DOC_MSG =
   'renderer.doc is empty, make sure call setDoc before render';
 
+/**
+ * The caret of typewriter transitions blinks once typing is done, in ms
+ */
+const CARET_BLINK_INTERVAL = 500;
+
+/**
+ * A callout placed in the current frame
+ */
+interface CalloutFrame {
+  callout: Callout;
+  snapshotIndex: number;
+  calloutIndex: number;
+  rect: AnchorRect;
+}
+
 export class MovieRenderer {
   private readonly app: Application;
 
-  public readonly readyPromise: Promise<void>;
+  private readonly initPromise: Promise<void>;
+
+  /**
+   * Resolves once the app is initialized and the font of the doc is loaded or failed
+   */
+  public readyPromise: Promise<void>;
 
   public ready = false;
 
+  /**
+   * Nothing is drawn while the font of the doc loads
+   */
+  private loadingFont = false;
+
+  /**
+   * Why the font of the doc failed to load, texts are drawn with the font of the theme then
+   */
+  public fontError: Error | null = null;
+
   private doc?: Doc;
   /**
    * Array[snapshotIndex][tokenIndex] represent for the token position
    */
   private tokenPositionsList: Position[][] = [];
 
+  /**
+   * Array[snapshotIndex] represent for the camera scroll offset
+   */
+  private scrollTopList: number[] = [];
+
+  /**
+   * Array[snapshotIndex] represent for the camera keyframe
+   */
+  private cameraStateList: CameraState[] = [];
+
+  /**
+   * Array[snapshotIndex][tokenIndex] represent for the token opacity, dimmed outside highlights
+   */
+  private tokenOpacitiesList: number[][] = [];
+
+  /**
+   * Array[snapshotIndex][calloutIndex] represent for the indexes of the anchor tokens
+   */
+  private calloutAnchorsList: number[][][] = [];
+
+  /**
+   * Array[snapshotIndex] represent for where the lines are displayed once the collapsed ones are folded
+   */
+  private foldLayoutList: FoldLayout[] = [];
+
+  /**
+   * Array[snapshotIndex] represent for the rows the tokens take once the long lines are wrapped
+   */
+  private wrapLayoutList: WrapLayout[] = [];
+
   private cachedTexts: Text[][] = [];
 
+  /**
+   * Texts of morphed token segments, keyed by `snapshotIndex:tokenIndex:offset:value`
+   */
+  private cachedMorphTexts = new Map<string, Text>();
+
+  /**
+   * Stagger orders of the token diffs, keyed by the left snapshot index
+   */
+  private cachedStaggerOrders = new Map<number, number[]>();
+
+  /**
+   * Labels of callouts, keyed by `snapshotIndex:calloutIndex`
+   */
+  private cachedCalloutTexts = new Map<string, Text>();
+
+  /**
+   * Texts of the gutter, keyed by `LineNumberFrame.key`
+   */
+  private cachedLineNumberTexts = new Map<string, Text>();
+
+  /**
+   * Source lines of the `to` lines, keyed by the left snapshot index
+   */
+  private cachedLineMappings = new Map<number, (number | null)[]>();
+
+  /**
+   * Texts of the fold placeholders, in the order of the placeholders
+   */
+  private cachedPlaceholderTexts: Text[] = [];
+
+  /**
+   * Text styles shared by the tokens of the same fill, font weight and font style
+   */
+  private cachedTextStyles = new Map<string, TextStyle>();
+
   private readonly finalText = this.createFinalText();
 
   private readonly textsContainer = new Container();
 
+  private readonly caret = new Graphics();
+
+  private readonly highlightBands = new Graphics();
+
+  private readonly tokenBackgrounds = new Graphics();
+
+  private readonly calloutGraphics = new Graphics();
+
   private _theme: Theme | null = null;
 
   // Cache for expensive operations
@@ -60,12 +226,14 @@ export class MovieRenderer {
     scale: number;
   } | null = null;
   private _cachedMonospaceCharWidth: number | null = null;
+  private _cachedGutterWidth: number | null = null;
 
   currentTime = -1;
 
   constructor(public readonly canvas: HTMLCanvasElement) {
     this.app = new Application();
-    this.readyPromise = this.init();
+    this.initPromise = this.init();
+    this.readyPromise = this.initPromise;
   }
 
   async init() {
@@ -85,23 +253,83 @@ export class MovieRenderer {
   setDoc(rawDoc: RawDoc) {
     if (rawDoc === this.doc?.raw) return;
     this.doc = createDoc(rawDoc);
+    this.clearCaches();
+
+    // Clear memory optimizer caches for this renderer
+    memoryOptimizer.clearCache('renderer-positions');
+    memoryOptimizer.clearCache('renderer-texts');
+
+    this.readyPromise = this.prepare(rawDoc);
+  }
+
+  private clearCaches() {
     this.tokenPositionsList = [];
+    this.scrollTopList = [];
+    this.cameraStateList = [];
+    this.tokenOpacitiesList = [];
+    this.calloutAnchorsList = [];
+    this.foldLayoutList = [];
+    this.wrapLayoutList = [];
     this.currentTime = -1;
     this.cachedTexts = [];
+    this.cachedMorphTexts.clear();
+    this.cachedStaggerOrders.clear();
+    this.cachedCalloutTexts.clear();
+    this.cachedLineNumberTexts.clear();
+    this.cachedLineMappings.clear();
+    this.cachedPlaceholderTexts = [];
+    this.cachedTextStyles.clear();
     this._theme = null;
 
     // Clear performance caches when doc changes
     this._cachedTextStyle = null;
     this._cachedTextSize = null;
     this._cachedMonospaceCharWidth = null;
+    this._cachedGutterWidth = null;
+  }
 
-    // Clear memory optimizer caches for this renderer
-    memoryOptimizer.clearCache('renderer-positions');
-    memoryOptimizer.clearCache('renderer-texts');
+  /**
+   * Resize the canvas and load the font of a doc, the texts measured
+   * with the fallback font are measured again once the font is loaded
+   * @param rawDoc
+   */
+  private async prepare(rawDoc: RawDoc) {
+    const { font } = rawDoc;
+    const loadingFont = !!font && !isDocFontLoaded(font);
+    this.loadingFont = loadingFont;
+    this.fontError = null;
+
+    await this.initPromise;
+    this.app.renderer.resize(rawDoc.width, rawDoc.height);
+    this.app.renderer.background.color = Theme.getTheme(
+      rawDoc.theme,
+    ).data.backgroundColor;
+    if (!font) return;
+
+    try {
+      await loadDocFont(font);
+    } catch (error) {
+      if (rawDoc !== this.doc?.raw) return;
+      // The preview draws with the fallback font, exports fail in `waitForExport`
+      this.fontError =
+        error instanceof Error ? error : new Error(String(error));
+    } finally {
+      if (loadingFont && rawDoc === this.doc?.raw) {
+        const time = this.currentTime;
+        this.clearCaches();
+        this.loadingFont = false;
+        if (time >= 0) this.render(time);
+      }
+    }
+  }
 
-    void this.readyPromise.then(() => {
-      this.app.renderer.resize(rawDoc.width, rawDoc.height);
-    });
+  /**
+   * Wait until the renderer is ready, exports never fall back silently
+   * @returns Rejects when the font of the doc failed to load
+   */
+  async waitForExport() {
+    await this.readyPromise;
+    if (this.fontError) throw this.fontError;
   }
 
   /**
@@ -136,7 +364,7 @@ export class MovieRenderer {
       this.renderStatic(snapshotIndex);
     }
 
-    if (this.ready) {
+    if (this.ready && !this.loadingFont) {
       app.render();
     }
   }
@@ -201,10 +429,47 @@ export class MovieRenderer {
     const { doc } = this;
     assert(doc, ASSERT_DOC_MSG);
 
-    const { snapshots, raw: rawDoc } = doc;
+    const { lineHeight } = doc.raw;
+    // Lines start after the gutter
+    const lineStart = this.getGutterWidth();
+    // Collapsed lines squash into their placeholder line
+    const { displayLines, collapsedLines } = this.getFoldLayout(snapshotIndex);
 
-    const snapshotView = snapshots[snapshotIndex];
+    return this.getWrapLayout(snapshotIndex).tokens.map(({ line, row, x }) => ({
+      x: lineStart + x,
+      y: (displayLines[line] + (collapsedLines[line] ? 0 : row)) * lineHeight,
+    }));
+  }
 
+  /**
+   * The width lines wrap at, `undefined` when they are not wrapped
+   */
+  private getWrapWidth() {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { wordWrap, width, padding } = doc.raw;
+    if (!wordWrap) return undefined;
+
+    // The right edge keeps the same padding as the left one
+    return width - padding.left * 2 - this.getGutterWidth();
+  }
+
+  private getWrapLayout(snapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    return (this.wrapLayoutList[snapshotIndex] ??= wrapTokens(
+      doc.snapshots[snapshotIndex].tokens,
+      (text) => this.measureTextWidth(text),
+      this.getWrapWidth(),
+    ));
+  }
+
+  /**
+   * Measure the width of a single line text with the base text style
+   * @param text
+   */
+  private measureTextWidth(text: string) {
     // Use cached TextStyle to avoid expensive recreation
     if (!this._cachedTextStyle) {
       this._cachedTextStyle = new TextStyle(this.getBaseTextStyle());
@@ -224,58 +489,563 @@ export class MovieRenderer {
         this._cachedTextSize.width * this._cachedTextSize.scale;
     }
 
-    const positions: Position[] = [];
-    let x = 0;
-    let y = 0;
+    if (text.length === 0) return 0;
 
-    const getTextWidth = (text: string) => {
-      if (checkSafeForMonospaceFont(text)) {
-        return this._cachedMonospaceCharWidth! * text.length;
-      }
+    // Uploaded fonts are measured as they are drawn, they may not be monospace
+    // and may join characters into ligatures
+    if (this.getDocFont()) {
+      return CanvasTextMetrics.measureText(text, this._cachedTextStyle).width;
+    }
+
+    if (checkSafeForMonospaceFont(text)) {
+      return this._cachedMonospaceCharWidth * text.length;
+    }
+
+    return BitmapFontManager.measureText(text, this._cachedTextStyle).width;
+  }
+
+  /**
+   * The uploaded font of the doc, unless it failed to load
+   */
+  private getDocFont() {
+    return this.fontError ? undefined : this.doc?.raw.font;
+  }
+
+  private getFoldLayout(snapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    return (this.foldLayoutList[snapshotIndex] ??= getFoldLayout(
+      doc.snapshots[snapshotIndex].code,
+      doc.snapshots[snapshotIndex].collapsed,
+      this.getWrapLayout(snapshotIndex).rowsCounts,
+    ));
+  }
+
+  /**
+   * The count of lines in a snapshot, `Snapshot.linesCount` counts the line breaks
+   */
+  private getLinesCount(snapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
 
-      if (text.length === 0) return 0;
+    return doc.snapshots[snapshotIndex].linesCount + 1;
+  }
 
-      return BitmapFontManager.measureText(text, this._cachedTextStyle!).width;
+  /**
+   * The width reserved for line numbers, wide enough for the longest snapshot,
+   * so the code stays in place when the count of digits changes
+   */
+  private getGutterWidth() {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    if (!doc.raw.lineNumbers) return 0;
+
+    if (this._cachedGutterWidth == null) {
+      const linesCount = Math.max(
+        ...doc.snapshots.map((_, index) => this.getLinesCount(index)),
+      );
+      // Two spaces between the numbers and the code
+      this._cachedGutterWidth = this.measureTextWidth(
+        `${'0'.repeat(String(linesCount).length)}  `,
+      );
+    }
+
+    return this._cachedGutterWidth;
+  }
+
+  private getCameraViewport(snapshotIndex: number): CameraViewport {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { height, padding, lineHeight } = doc.raw;
+
+    return {
+      height,
+      lineHeight,
+      linesCount: this.getFoldLayout(snapshotIndex).displayLinesCount,
+      paddingTop: padding.top,
+      paddingBottom: padding.bottom,
     };
+  }
 
-    for (const token of snapshotView.tokens) {
-      positions.push({ x, y });
-      const { value } = token;
+  private getScrollTop(snapshotIndex: number): number {
+    return (this.scrollTopList[snapshotIndex] ??=
+      this.computeScrollTop(snapshotIndex));
+  }
 
-      const breaksCount = value.match(/\n/g)?.length ?? 0;
-      if (breaksCount === 0) {
-        x += getTextWidth(value);
-      } else {
-        const lastLineText = getLastLine(value);
-        y += rawDoc.lineHeight * breaksCount;
-        x = getTextWidth(lastLineText);
-      }
+  /**
+   * The camera of a snapshot scrolls to its manual line, or follows the lines
+   * changed by the transition into it, and stays in place when nothing changed
+   * @param snapshotIndex
+   */
+  private computeScrollTop(snapshotIndex: number): number {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    const viewport = this.getCameraViewport(snapshotIndex);
+    const { displayLines, lastDisplayLines } =
+      this.getFoldLayout(snapshotIndex);
+    const { scrollToLine } = doc.snapshots[snapshotIndex];
+    if (scrollToLine != null) {
+      const line = scrollToLine - 1;
+      return getLineScrollTop(displayLines[line] ?? line, viewport);
     }
+    if (snapshotIndex === 0) {
+      return getLineScrollTop(0, viewport);
+    }
+
+    const range = getChangedLineRange(doc.transitions[snapshotIndex - 1]);
+    if (range) {
+      return getFocusScrollTop(
+        [
+          displayLines[range[0]] ?? range[0],
+          lastDisplayLines[range[1]] ?? range[1],
+        ],
+        viewport,
+      );
+    }
+
+    const { minScrollTop, maxScrollTop } = getScrollBounds(viewport);
+    return maxScrollTop === 0
+      ? minScrollTop
+      : clamp(this.getScrollTop(snapshotIndex - 1), 0, maxScrollTop);
+  }
 
-    return positions;
+  private getCameraState(snapshotIndex: number): CameraState {
+    return (this.cameraStateList[snapshotIndex] ??=
+      this.computeCameraState(snapshotIndex));
   }
 
-  private computeScrollPosition(snapshotIndex: number) {
+  /**
+   * The camera of a snapshot follows the scroll offset, unless its keyframe
+   * focuses on a range or zooms in
+   * @param snapshotIndex
+   */
+  private computeCameraState(snapshotIndex: number): CameraState {
     const { doc } = this;
     assert(doc, ASSERT_DOC_MSG);
-    const {
-      snapshots,
-      raw: { height, padding, lineHeight },
-    } = doc;
-    const snapshotView = snapshots[snapshotIndex];
+    const { padding, width, height, snapshots } = doc.raw;
+    const { camera } = snapshots[snapshotIndex];
+    // Falls back to the `[!focus]` directives
+    const { focus } = doc.snapshots[snapshotIndex];
+    const canvas = { width, height };
+
+    const scrolledState: CameraState = {
+      x: padding.left,
+      y: padding.top - this.getScrollTop(snapshotIndex),
+      scale: 1,
+    };
+
+    if (focus) {
+      return getFocusCameraState(
+        this.measureFocusRect(snapshotIndex, focus),
+        canvas,
+        padding.left,
+        camera?.zoom,
+      );
+    }
+    if (camera?.zoom) {
+      return zoomCameraState(scrolledState, camera.zoom, canvas);
+    }
+
+    return scrolledState;
+  }
+
+  /**
+   * Measure the bounds of a focused range in the texts container
+   * @param snapshotIndex
+   * @param focus
+   */
+  private measureFocusRect(
+    snapshotIndex: number,
+    { startLine, endLine, startColumn, endColumn }: CameraFocus,
+  ): CameraRect {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { lineHeight } = doc.raw;
+
+    const lines = doc.snapshots[snapshotIndex].code.split('\n');
+    const start = clamp(startLine, 1, lines.length) - 1;
+    const end = clamp(endLine, start + 1, lines.length) - 1;
+    const rangeLines = lines.slice(start, end + 1);
+
+    const left = Math.min(
+      ...rangeLines.map((line) =>
+        this.measureTextWidth(line.slice(0, (startColumn ?? 1) - 1)),
+      ),
+    );
+    const right = Math.min(
+      Math.max(
+        ...rangeLines.map((line) =>
+          this.measureTextWidth(line.slice(0, endColumn ?? line.length)),
+        ),
+      ),
+      // Wrapped lines never go past the wrap width
+      this.getWrapWidth() ?? Infinity,
+    );
+
+    const { displayLines, lastDisplayLines } =
+      this.getFoldLayout(snapshotIndex);
+
+    return {
+      x: this.getGutterWidth() + left,
+      y: displayLines[start] * lineHeight,
+      width: Math.max(0, right - left),
+      height: (lastDisplayLines[end] - displayLines[start] + 1) * lineHeight,
+    };
+  }
+
+  /**
+   * The opacity of each token, tokens outside the highlights are dimmed
+   * and tokens on collapsed lines are hidden
+   * @param snapshotIndex
+   */
+  private getTokenOpacities(snapshotIndex: number) {
+    const cached = this.tokenOpacitiesList[snapshotIndex];
+    if (cached) return cached;
+
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { dimOpacity } = doc.raw.snapshots[snapshotIndex];
+    const { highlights, tokens } = doc.snapshots[snapshotIndex];
+    const { collapsedLines } = this.getFoldLayout(snapshotIndex);
+
+    const opacities = getTokenOpacities(tokens, highlights, dimOpacity);
+    if (collapsedLines.includes(true)) {
+      getTokenLines(tokens).forEach((line, index) => {
+        if (collapsedLines[line]) opacities[index] = 0;
+      });
+    }
+    this.tokenOpacitiesList[snapshotIndex] = opacities;
+
+    return opacities;
+  }
+
+  private getHighlightBands(snapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    return getHighlightBands(
+      doc.snapshots[snapshotIndex].highlights,
+      doc.raw.lineHeight,
+      this.getFoldLayout(snapshotIndex),
+    );
+  }
+
+  /**
+   * Draw the highlight bands across the canvas, behind the texts
+   * @param bands
+   * @param camera The bands are drawn in the texts container, so they follow the camera
+   */
+  private renderHighlightBands(bands: HighlightBand[], camera: CameraState) {
+    const { highlightBands, doc, theme } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    highlightBands.clear();
+    if (!bands.length) return;
+
+    const left = -camera.x / camera.scale;
+    const width = doc.raw.width / camera.scale;
+    const color = theme.data.lineHighlightColor ?? '#ffffff1f';
+
+    for (const { y, height, alpha } of bands) {
+      if (alpha <= 0) continue;
+      highlightBands.rect(left, y, width, height).fill({ color, alpha });
+    }
+    this.textsContainer.addChild(highlightBands);
+  }
+
+  private getCalloutAnchors(snapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { callouts } = doc.snapshots[snapshotIndex];
+
+    return (this.calloutAnchorsList[snapshotIndex] ??= callouts.map(
+      ({ anchor }) =>
+        getAnchorTokenIndexes(doc.snapshots[snapshotIndex].tokens, anchor),
+    ));
+  }
+
+  private createAnchorTokenState(
+    token: Token,
+    position: Position,
+    alpha: number,
+  ): AnchorTokenState {
+    return {
+      ...position,
+      width: this.measureTextWidth(token.value.split('\n')[0]),
+      alpha,
+    };
+  }
+
+  /**
+   * Place the callouts of a snapshot on their anchor tokens
+   * @param snapshotIndex
+   * @param states The anchor states of the snapshot tokens in the current frame
+   */
+  private getCalloutFrames(
+    snapshotIndex: number,
+    states: (AnchorTokenState | undefined)[],
+  ): CalloutFrame[] {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { callouts } = doc.snapshots[snapshotIndex];
+    const anchors = this.getCalloutAnchors(snapshotIndex);
+
+    return callouts.flatMap((callout, calloutIndex) => {
+      const rect = getAnchorRect(
+        anchors[calloutIndex],
+        states,
+        doc.raw.lineHeight,
+      );
+
+      return rect ? [{ callout, snapshotIndex, calloutIndex, rect }] : [];
+    });
+  }
 
-    const contentHeight = snapshotView.linesCount * lineHeight;
-    const heightWithPaddings = contentHeight + padding.top + padding.bottom;
-    const minScrollTop = Math.min(0, (heightWithPaddings - height) / 2);
-    const maxScrollTop = Math.max(0, heightWithPaddings - height);
+  private createCalloutLabel(
+    snapshotIndex: number,
+    calloutIndex: number,
+    { type, text: value }: Callout,
+  ) {
+    const { doc, theme } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const key = `${snapshotIndex}:${calloutIndex}`;
+    const cached = this.cachedCalloutTexts.get(key);
+    if (cached?.text === value) {
+      return cached;
+    }
+
+    const style = getCalloutStyle(theme.data);
+    const text = new Text({
+      text: value,
+      style: {
+        ...this.getBaseTextStyle(),
+        fontSize: Math.round(doc.raw.fontSize * 0.8),
+        fill: type === CalloutType.BUBBLE ? style.color : style.accentColor,
+      },
+    });
+    this.cachedCalloutTexts.set(key, text);
+
+    return text;
+  }
+
+  /**
+   * Draw callouts above the texts, they are drawn in the texts container to follow the camera
+   * @param frames
+   */
+  private renderCallouts(frames: CalloutFrame[]) {
+    const { calloutGraphics, doc, theme, textsContainer } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    calloutGraphics.clear();
+    if (!frames.length) return;
+    textsContainer.addChild(calloutGraphics);
+
+    const { backgroundColor, accentColor } = getCalloutStyle(theme.data);
+    const padding = Math.round(doc.raw.fontSize / 3);
+    const strokeWidth = Math.max(1, doc.raw.fontSize / 10);
+
+    for (const { callout, snapshotIndex, calloutIndex, rect } of frames) {
+      const { alpha } = rect;
+      if (alpha <= 0) continue;
+
+      const label = callout.text
+        ? this.createCalloutLabel(snapshotIndex, calloutIndex, callout)
+        : null;
+      const {
+        box,
+        pointer,
+        label: labelPosition,
+      } = layoutCallout(
+        callout.type,
+        rect,
+        { width: label?.width ?? 0, height: label?.height ?? 0 },
+        padding,
+      );
+
+      switch (callout.type) {
+        case CalloutType.ARROW: {
+          const [from, to] = pointer;
+          calloutGraphics
+            .moveTo(from.x, from.y)
+            .lineTo(to.x, to.y)
+            .moveTo(to.x + padding, to.y - padding)
+            .lineTo(to.x, to.y)
+            .lineTo(to.x + padding, to.y + padding)
+            .stroke({ color: accentColor, width: strokeWidth, alpha });
+          break;
+        }
+        case CalloutType.SQUIGGLE:
+          calloutGraphics
+            .poly(pointer, false)
+            .stroke({ color: accentColor, width: strokeWidth, alpha });
+          break;
+        case CalloutType.BUBBLE:
+        default:
+          if (!label) break;
+          calloutGraphics
+            .roundRect(box.x, box.y, box.width, box.height, padding)
+            .fill({ color: backgroundColor, alpha })
+            .poly(pointer)
+            .fill({ color: backgroundColor, alpha });
+      }
+
+      if (label) {
+        label.x = labelPosition.x;
+        label.y = labelPosition.y;
+        label.alpha = alpha;
+        textsContainer.addChild(label);
+      }
+    }
+  }
+
+  /**
+   * Place the callouts of both snapshots of a transition, callouts kept by
+   * the next snapshot move into their new anchors, the others fade out or in
+   * with the snapshot they belong to
+   */
+  private getTransitionCalloutFrames(
+    leftSnapshotIndex: number,
+    leftStates: AnchorTokenState[],
+    rightStates: AnchorTokenState[],
+    progress: number,
+  ): CalloutFrame[] {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const rightSnapshotIndex = leftSnapshotIndex + 1;
+
+    const leftFrames = this.getCalloutFrames(leftSnapshotIndex, leftStates);
+    const rightFrames = this.getCalloutFrames(rightSnapshotIndex, rightStates);
+    const rightFrameMap = new Map(
+      rightFrames.map((frame) => [frame.callout.id, frame]),
+    );
+    const leftIds = new Set(leftFrames.map((frame) => frame.callout.id));
+
+    const frames = leftFrames.map((leftFrame): CalloutFrame => {
+      const rightFrame = rightFrameMap.get(leftFrame.callout.id);
+      if (!rightFrame) {
+        return {
+          ...leftFrame,
+          rect: {
+            ...leftFrame.rect,
+            alpha: leftFrame.rect.alpha * (1 - progress),
+          },
+        };
+      }
+
+      return {
+        ...(progress < 0.5 ? leftFrame : rightFrame),
+        rect: interpolateAnchorRect(leftFrame.rect, rightFrame.rect, progress),
+      };
+    });
+
+    for (const rightFrame of rightFrames) {
+      if (leftIds.has(rightFrame.callout.id)) continue;
+      frames.push({
+        ...rightFrame,
+        rect: { ...rightFrame.rect, alpha: rightFrame.rect.alpha * progress },
+      });
+    }
+
+    return frames;
+  }
+
+  private getGutterLines(snapshotIndex: number): GutterLines {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const linesCount = this.getLinesCount(snapshotIndex);
 
     return {
-      minScrollTop,
-      // Reserved for auto-scroll feature
-      maxScrollTop,
+      linesCount,
+      activeLines: getHighlightedLines(
+        doc.snapshots[snapshotIndex].highlights,
+        linesCount,
+      ),
+      fold: this.getFoldLayout(snapshotIndex),
     };
   }
 
+  private getLineMapping(leftSnapshotIndex: number) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    let mapping = this.cachedLineMappings.get(leftSnapshotIndex);
+    if (!mapping) {
+      mapping = getLineMapping(
+        doc.transitions[leftSnapshotIndex],
+        this.getLinesCount(leftSnapshotIndex + 1),
+      );
+      this.cachedLineMappings.set(leftSnapshotIndex, mapping);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Draw the line numbers right aligned in the gutter, highlighted lines
+   * take the active color
+   * @param frames
+   */
+  private renderLineNumbers(frames: LineNumberFrame[]) {
+    const { theme } = this;
+    const numbersEnd = this.getGutterWidth() - this.measureTextWidth('  ');
+    const color = theme.data.lineNumberColor ?? theme.data.color;
+    const activeColor = theme.data.activeLineNumberColor ?? color;
+
+    for (const { key, number, y, alpha, active } of frames) {
+      if (alpha <= 0) continue;
+
+      let text = this.cachedLineNumberTexts.get(key);
+      if (!text) {
+        // Drawn in white, so the tint is the exact fill color
+        text = new Text({
+          text: String(number),
+          style: { ...this.getBaseTextStyle(), fill: '#fff' },
+        });
+        this.cachedLineNumberTexts.set(key, text);
+      }
+
+      text.x = numbersEnd - this.measureTextWidth(String(number));
+      text.y = y;
+      text.alpha = alpha;
+      text.tint = mixColors(color, activeColor, active);
+      this.textsContainer.addChild(text);
+    }
+  }
+
+  /**
+   * Draw the placeholders of collapsed lines in the color of comments
+   * @param frames
+   */
+  private renderPlaceholders(frames: PlaceholderFrame[]) {
+    const { theme } = this;
+    const lineStart = this.getGutterWidth();
+
+    frames.forEach(({ y, alpha, indent }, index) => {
+      if (alpha <= 0) return;
+
+      const text = (this.cachedPlaceholderTexts[index] ??= new Text({
+        text: FOLD_PLACEHOLDER,
+        style: {
+          ...this.getBaseTextStyle(),
+          fill: theme.getTypesStyle(['comment']).color ?? theme.data.color,
+        },
+      }));
+      text.x = lineStart + this.measureTextWidth(indent);
+      text.y = y;
+      text.alpha = alpha;
+      this.textsContainer.addChild(text);
+    });
+  }
+
+  private applyCameraState({ x, y, scale }: CameraState) {
+    const { textsContainer } = this;
+    textsContainer.x = x;
+    textsContainer.y = y;
+    textsContainer.scale = scale;
+  }
+
   private getBaseTextStyle(): Partial<TextStyleOptions> {
     const { theme, doc } = this;
     assert(doc, ASSERT_DOC_MSG);
@@ -285,27 +1055,45 @@ export class MovieRenderer {
 
     return {
       fontSize,
-      fontFamily: theme.data.fontFace,
+      fontFamily: getFontFamily(this.getDocFont(), theme.data.fontFace),
     };
   }
 
+  /**
+   * Get the shared text style of a token style
+   * @param tokenStyle
+   */
+  private getTextStyle({ color, fontWeight, fontStyle }: TokenTextStyle) {
+    const fill = color ?? '#fff';
+    const key = `${fill}:${fontWeight ?? ''}:${fontStyle ?? ''}`;
+    let style = this.cachedTextStyles.get(key);
+    if (!style) {
+      const options: Partial<TextStyleOptions> = {
+        ...this.getBaseTextStyle(),
+        fill,
+      };
+      if (fontWeight != null) {
+        options.fontWeight = String(fontWeight) as TextStyleFontWeight;
+      }
+      if (fontStyle) {
+        options.fontStyle = fontStyle as TextStyleFontStyle;
+      }
+      style = new TextStyle(options);
+      this.cachedTextStyles.set(key, style);
+    }
+
+    return style;
+  }
+
   private createText(token: Token, snapshotIndex: number, tokenIndex: number) {
     const snapshotTexts = (this.cachedTexts[snapshotIndex] ||= []);
     if (snapshotTexts[tokenIndex]) {
       return snapshotTexts[tokenIndex];
     }
-    const { theme, doc } = this;
-    assert(doc, ASSERT_DOC_MSG);
-    const tokenStyle = theme.getTypesStyle(token.types);
-
-    const textStyle = this.getBaseTextStyle();
 
     const text = new Text({
       text: token.value,
-      style: {
-        ...textStyle,
-        fill: tokenStyle.color ?? '#fff',
-      },
+      style: this.getTokenTextStyle(token),
     });
 
     snapshotTexts[tokenIndex] = text;
@@ -313,6 +1101,219 @@ export class MovieRenderer {
     return text;
   }
 
+  private getTokenTextStyle(token: Token) {
+    return this.getTextStyle(this.theme.getTypesStyle(token.types));
+  }
+
+  /**
+   * Clear the token backgrounds of the previous frame, they are drawn
+   * behind the texts as the texts are added
+   */
+  private resetTokenBackgrounds() {
+    const { tokenBackgrounds } = this;
+    tokenBackgrounds.clear();
+    this.textsContainer.addChild(tokenBackgrounds);
+  }
+
+  /**
+   * Add a placed token text to the frame, with a rounded rect behind it
+   * when the theme gives the token a background
+   * @param text
+   * @param token The token the text is styled after
+   */
+  private addTokenText(text: Text, token: Token) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    this.textsContainer.addChild(text);
+
+    const { backgroundColor } = this.theme.getTypesStyle(token.types);
+    if (!backgroundColor || text.alpha <= 0 || !/\S/.test(token.value)) return;
+
+    this.tokenBackgrounds
+      .roundRect(
+        text.x,
+        text.y,
+        text.width,
+        text.height,
+        Math.round(doc.raw.fontSize / 5),
+      )
+      .fill({ color: backgroundColor, alpha: text.alpha });
+  }
+
+  /**
+   * Create the text of a part of a token, used by morph transitions
+   * @param offset the character offset of the part in the token
+   */
+  private createSegmentText(
+    token: Token,
+    snapshotIndex: number,
+    tokenIndex: number,
+    offset: number,
+    value: string,
+  ) {
+    const key = `${snapshotIndex}:${tokenIndex}:${offset}:${value}`;
+    const cached = this.cachedMorphTexts.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const text = new Text({
+      text: value,
+      style: this.getTokenTextStyle(token),
+    });
+
+    this.cachedMorphTexts.set(key, text);
+
+    return text;
+  }
+
+  private getStaggerOrders(
+    leftSnapshotIndex: number,
+    { staggerMode = StaggerMode.NONE, staggerSeed }: TransitionConfig,
+  ) {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    let orders = this.cachedStaggerOrders.get(leftSnapshotIndex);
+    if (!orders) {
+      orders = getStaggerOrders(
+        doc.transitions[leftSnapshotIndex],
+        staggerMode,
+        staggerSeed,
+      );
+      this.cachedStaggerOrders.set(leftSnapshotIndex, orders);
+    }
+
+    return orders;
+  }
+
+  /**
+   * Lay out a typewriter transition, the inserted characters are typed
+   * in reading order at a constant speed through the whole transition
+   */
+  private layoutTypewriterTransition(
+    leftSnapshotIndex: number,
+    progress: number,
+  ): TypewriterLayout {
+    const { doc } = this;
+    assert(doc, ASSERT_DOC_MSG);
+
+    const mutation = doc.transitions[leftSnapshotIndex];
+    const runs = getInsertedRuns(mutation);
+    const count = runs.reduce((sum, run) => sum + run.text.length, 0);
+
+    const { lineHeight } = doc.raw;
+    const layout = layoutTypewriter(
+      mutation.right,
+      runs,
+      Math.floor(clamp01(progress) * count),
+      (text) => this.measureTextWidth(text),
+      lineHeight,
+      this.getGutterWidth(),
+    );
+
+    const rightSnapshotIndex = leftSnapshotIndex + 1;
+    const { displayLines, collapsedLines, placeholders } =
+      this.getFoldLayout(rightSnapshotIndex);
+    if (!placeholders.length && !doc.raw.wordWrap) return layout;
+
+    // Collapsed lines squash into their placeholder line, tokens already on
+    // their final line take their wrapped row, the others are still pushed along
+    const wraps = this.getWrapLayout(rightSnapshotIndex).tokens;
+    const place = ({ x, y }: Position, tokenIndex: number): Position => {
+      const line = Math.round(y / lineHeight);
+      const { line: wrapLine, row, shift } = wraps[tokenIndex];
+      const wrapped = line === wrapLine && !collapsedLines[line];
+
+      return {
+        x: wrapped ? x - shift : x,
+        y: ((displayLines[line] ?? line) + (wrapped ? row : 0)) * lineHeight,
+      };
+    };
+    const typedRuns = layout.runs.filter((run) => run.typedText.length > 0);
+    const caretRun = typedRuns[typedRuns.length - 1] ?? layout.runs[0];
+
+    return {
+      tokenPositions: layout.tokenPositions.map(place),
+      runs: layout.runs.map((run) => ({
+        ...run,
+        position: place(run.position, run.rightIndex),
+      })),
+      caret: layout.caret && place(layout.caret, caretRun.rightIndex),
+    };
+  }
+
+  private renderCaret(position: Position, typingDone: boolean) {
+    const { caret, doc, theme } = this;
+    assert(doc, ASSERT_DOC_MSG);
+    const { fontSize, lineHeight } = doc.raw;
+
+    caret
+      .clear()
+      .rect(0, 0, Math.max(1, fontSize / 15), fontSize * 1.2)
+      .fill(theme.data.color);
+    caret.x = position.x;
+    caret.y = position.y + (lineHeight - fontSize * 1.2) / 2;
+    // Solid while typing, blinks when waiting for the next snapshot
+    caret.alpha =
+      typingDone &&
+      Math.floor(this.currentTime / CARET_BLINK_INTERVAL) % 2 === 1
+        ? 0
+        : 1;
+    this.textsContainer.addChild(caret);
+  }
+
+  /**
+   * Create the text of a moved token, when its highlight changes the fill color
+   * blends into the new one, and the font weight and style switch at the midpoint
+   */
+  private createMovedText(
+    leftToken: Token,
+    leftSnapshotIndex: number,
+    leftIndex: number,
+    rightToken: Token,
+    rightIndex: number,
+    moveProgress: number,
+  ) {
+    const { theme } = this;
+    const leftStyle = theme.getTypesStyle(leftToken.types);
+    const rightStyle = theme.getTypesStyle(rightToken.types);
+
+    if (
+      leftStyle.color === rightStyle.color &&
+      leftStyle.fontWeight === rightStyle.fontWeight &&
+      leftStyle.fontStyle === rightStyle.fontStyle
+    ) {
+      return this.createText(leftToken, leftSnapshotIndex, leftIndex);
+    }
+
+    const [token, snapshotIndex, tokenIndex] =
+      moveProgress < 0.5
+        ? [leftToken, leftSnapshotIndex, leftIndex]
+        : [rightToken, leftSnapshotIndex + 1, rightIndex];
+    const key = `${snapshotIndex}:${tokenIndex}:tint`;
+    let text = this.cachedMorphTexts.get(key);
+    if (!text) {
+      // Drawn in white, so the tint is the exact fill color
+      text = new Text({
+        text: token.value,
+        style: this.getTextStyle({
+          ...this.theme.getTypesStyle(token.types),
+          color: '#fff',
+        }),
+      });
+      this.cachedMorphTexts.set(key, text);
+    }
+
+    text.tint = mixColors(
+      leftStyle.color ?? '#fff',
+      rightStyle.color ?? '#fff',
+      moveProgress,
+    );
+
+    return text;
+  }
+
   createFinalText() {
     const text = new Text({
       text: 'Made with diffani',
@@ -326,21 +1327,33 @@ export class MovieRenderer {
   }
 
   private baseRenderStatic(snapshotIndex: number, doc: Doc, globalAlpha = 1) {
-    const {
-      snapshots,
-      raw: { padding },
-    } = doc;
-    const { minScrollTop } = this.computeScrollPosition(snapshotIndex);
+    const { snapshots } = doc;
 
     const positions = this.getTokenPositions(snapshotIndex);
+    const opacities = this.getTokenOpacities(snapshotIndex);
     const { tokens } = snapshots[snapshotIndex];
 
     this.finalText.alpha = 0;
     this.textsContainer.removeChildren();
 
     this.textsContainer.alpha = globalAlpha;
-    this.textsContainer.x = padding.left;
-    this.textsContainer.y = padding.top - minScrollTop;
+    const camera = this.getCameraState(snapshotIndex);
+    this.applyCameraState(camera);
+    this.renderHighlightBands(this.getHighlightBands(snapshotIndex), camera);
+    this.resetTokenBackgrounds();
+    if (doc.raw.lineNumbers) {
+      this.renderLineNumbers(
+        getLineNumbers(this.getGutterLines(snapshotIndex), doc.raw.lineHeight),
+      );
+    }
+    const { placeholders } = this.getFoldLayout(snapshotIndex);
+    this.renderPlaceholders(
+      placeholders.map(({ line, indent }) => ({
+        y: line * doc.raw.lineHeight,
+        alpha: 1,
+        indent,
+      })),
+    );
 
     for (let i = 0; i < tokens.length; i++) {
       const token = tokens[i];
@@ -348,8 +1361,24 @@ export class MovieRenderer {
       const text = this.createText(token, snapshotIndex, i);
       text.x = position.x;
       text.y = position.y;
-      this.textsContainer.addChild(text);
+      text.alpha = opacities[i];
+      this.addTokenText(text, token);
     }
+
+    this.renderCallouts(
+      snapshots[snapshotIndex].callouts.length
+        ? this.getCalloutFrames(
+            snapshotIndex,
+            tokens.map((token, i) =>
+              this.createAnchorTokenState(
+                token,
+                positions[i],
+                opacities[i] > 0 ? 1 : 0,
+              ),
+            ),
+          )
+        : [],
+    );
   }
 
   private renderStatic(snapshotIndex: number) {
@@ -364,7 +1393,7 @@ export class MovieRenderer {
     assert(doc, ASSERT_DOC_MSG);
 
     const {
-      raw: { padding, snapshots },
+      raw: { snapshots },
     } = doc;
 
     // Get transition configuration from the snapshot
@@ -375,92 +1404,403 @@ export class MovieRenderer {
     };
 
     const transitionState = computeTransitionState(progress, transitionConfig);
-    const { minScrollTop: leftMinScrollTop } =
-      this.computeScrollPosition(leftSnapshotIndex);
-    const { minScrollTop: rightMinScrollTop } =
-      this.computeScrollPosition(rightSnapshotIndex);
 
     finalText.alpha = 0;
     this.textsContainer.removeChildren();
 
-    this.textsContainer.x = padding.left;
-    this.textsContainer.y =
-      padding.top -
-      applyTransition(progress, leftMinScrollTop, rightMinScrollTop);
+    const { camera } = snapshots[rightSnapshotIndex];
+    const cameraEase = camera?.easingId
+      ? getEasingFunction(camera.easingId)
+      : getTransitionEase(transitionConfig);
+    const cameraState = interpolateCameraState(
+      this.getCameraState(leftSnapshotIndex),
+      this.getCameraState(rightSnapshotIndex),
+      cameraEase(clamp01(progress)),
+    );
+    this.applyCameraState(cameraState);
+
+    const easedProgress = getTransitionEase(transitionConfig)(
+      clamp01(progress),
+    );
+    this.renderHighlightBands(
+      interpolateHighlightBands(
+        this.getHighlightBands(leftSnapshotIndex),
+        this.getHighlightBands(rightSnapshotIndex),
+        easedProgress,
+      ),
+      cameraState,
+    );
+    this.resetTokenBackgrounds();
+    if (doc.raw.lineNumbers) {
+      this.renderLineNumbers(
+        getTransitionLineNumbers(
+          this.getLineMapping(leftSnapshotIndex),
+          this.getGutterLines(leftSnapshotIndex),
+          this.getGutterLines(rightSnapshotIndex),
+          doc.raw.lineHeight,
+          easedProgress,
+        ),
+      );
+    }
+    this.renderPlaceholders(
+      interpolatePlaceholders(
+        this.getFoldLayout(leftSnapshotIndex).placeholders,
+        this.getFoldLayout(rightSnapshotIndex).placeholders,
+        doc.raw.lineHeight,
+        easedProgress,
+      ),
+    );
+    const leftOpacities = this.getTokenOpacities(leftSnapshotIndex);
+    const rightOpacities = this.getTokenOpacities(rightSnapshotIndex);
+    /**
+     * The dimming of a token, tokens on both sides blend between their opacities
+     */
+    const getOpacity = (
+      leftIndex: number | null | undefined,
+      rightIndex: number | null | undefined,
+    ) => {
+      if (leftIndex == null) return rightOpacities[rightIndex!];
+      if (rightIndex == null) return leftOpacities[leftIndex];
+
+      const from = leftOpacities[leftIndex];
+      return from + (rightOpacities[rightIndex] - from) * easedProgress;
+    };
+
+    const trackingAnchors =
+      doc.snapshots[leftSnapshotIndex].callouts.length +
+        doc.snapshots[rightSnapshotIndex].callouts.length >
+      0;
+    const leftAnchorStates: AnchorTokenState[] = [];
+    const rightAnchorStates: AnchorTokenState[] = [];
+    /**
+     * Record where a token is drawn, so callouts can follow it
+     */
+    const trackAnchor = (
+      leftIndex: number | null | undefined,
+      rightIndex: number | null | undefined,
+      position: Position,
+      alpha: number,
+    ) => {
+      if (!trackingAnchors) return;
+
+      const state = this.createAnchorTokenState(
+        leftIndex == null ? right[rightIndex!] : left[leftIndex],
+        position,
+        alpha,
+      );
+      if (leftIndex != null) leftAnchorStates[leftIndex] = state;
+      if (rightIndex != null) rightAnchorStates[rightIndex] = state;
+    };
 
     const mutation = doc.transitions[leftSnapshotIndex];
     const { left, right, diffs } = mutation;
 
-    for (const { leftIndex, rightIndex } of diffs) {
+    const staggerOrders =
+      transitionConfig.staggerMode === StaggerMode.NONE
+        ? null
+        : this.getStaggerOrders(leftSnapshotIndex, transitionConfig);
+
+    const typewriter =
+      transitionConfig.effectType === TransitionEffectType.TYPEWRITER
+        ? this.layoutTypewriterTransition(leftSnapshotIndex, progress)
+        : null;
+
+    if (typewriter) {
+      // Typed characters show up at once, so draw them apart from the diffs
+      for (const {
+        rightIndex,
+        offset,
+        typedText,
+        position,
+      } of typewriter.runs) {
+        if (!typedText) continue;
+
+        const text = this.createSegmentText(
+          right[rightIndex],
+          rightSnapshotIndex,
+          rightIndex,
+          offset,
+          typedText,
+        );
+        text.x = position.x;
+        text.y = position.y;
+        text.alpha = rightOpacities[rightIndex];
+        text.scale.set(1);
+        this.addTokenText(text, right[rightIndex]);
+      }
+    }
+
+    /**
+     * Where the characters of a `to` token settle, typewriter transitions
+     * push them along with the typed characters
+     */
+    const getRightPosition = (rightIndex: number, offset = 0) => {
+      if (!typewriter) {
+        const position = this.getTokenPositions(rightSnapshotIndex)[rightIndex];
+
+        return {
+          x:
+            position.x +
+            this.measureTextWidth(right[rightIndex].value.slice(0, offset)),
+          y: position.y,
+        };
+      }
+
+      const position = typewriter.tokenPositions[rightIndex];
+      // Untyped characters before the offset take up no space
+      const untypedText = typewriter.runs
+        .filter((run) => run.rightIndex === rightIndex && run.offset < offset)
+        .map((run) => run.text.slice(run.typedText.length))
+        .join('');
+
+      return {
+        x:
+          position.x +
+          this.measureTextWidth(right[rightIndex].value.slice(0, offset)) -
+          this.measureTextWidth(untypedText),
+        y: position.y,
+      };
+    };
+
+    for (const [
+      diffIndex,
+      { leftIndex, rightIndex, morph },
+    ] of diffs.entries()) {
+      // Added tokens only exist on the right side, the others take the types they had
+      const token = leftIndex == null ? right[rightIndex!] : left[leftIndex];
+      const tokenConfig = getTypesTransitionConfig(
+        transitionConfig,
+        token.types,
+      );
+      const tokenState =
+        staggerOrders || tokenConfig !== transitionConfig
+          ? computeTransitionState(
+              progress,
+              tokenConfig,
+              staggerOrders?.[diffIndex],
+            )
+          : transitionState;
+
       if (leftIndex == null) {
         assert(
           rightIndex,
           'leftIndex and rightIndex cannot be null at same time',
         );
-        // add
-        const token = right[rightIndex];
+        // add, typewriter transitions have typed it already
+        if (typewriter) {
+          const typed = typewriter.runs
+            .filter((run) => run.rightIndex === rightIndex)
+            .every((run) => run.typedText === run.text);
+          trackAnchor(
+            null,
+            rightIndex,
+            typewriter.tokenPositions[rightIndex],
+            typed ? 1 : 0,
+          );
+          continue;
+        }
+
         const basePosition =
           this.getTokenPositions(rightSnapshotIndex)[rightIndex];
         const text = this.createText(token, rightSnapshotIndex, rightIndex);
 
         // Apply transition effects for added tokens
         const { position, alpha, scale } = applyTransitionEffect(
-          transitionState.inProgress,
-          transitionConfig,
+          tokenState.inProgress,
+          tokenConfig,
           basePosition,
           basePosition,
         );
 
         text.x = position.x;
         text.y = position.y;
-        text.alpha = alpha;
+        text.alpha = alpha * rightOpacities[rightIndex];
         text.scale.set(scale);
-        this.textsContainer.addChild(text);
+        this.addTokenText(text, token);
+        trackAnchor(null, rightIndex, position, alpha);
       } else if (rightIndex == null) {
         // delete
-        const token = left[leftIndex];
         const basePosition =
           this.getTokenPositions(leftSnapshotIndex)[leftIndex];
         const text = this.createText(token, leftSnapshotIndex, leftIndex);
 
         // Apply transition effects for deleted tokens (reverse progress)
         const { position, alpha, scale } = applyTransitionEffect(
-          1 - transitionState.outProgress,
-          transitionConfig,
+          1 - tokenState.outProgress,
+          tokenConfig,
           basePosition,
           basePosition,
         );
 
         text.x = position.x;
         text.y = position.y;
-        text.alpha = alpha;
+        text.alpha = alpha * leftOpacities[leftIndex];
         text.scale.set(scale);
-        this.textsContainer.addChild(text);
+        this.addTokenText(text, token);
+        trackAnchor(leftIndex, null, position, alpha);
+      } else if (morph) {
+        // morph, the shared characters move while the others fade
+        const leftToken = left[leftIndex];
+        const rightToken = right[rightIndex];
+        const leftPosition =
+          this.getTokenPositions(leftSnapshotIndex)[leftIndex];
+        trackAnchor(
+          leftIndex,
+          rightIndex,
+          applyPositionTransition(
+            tokenState.moveProgress,
+            leftPosition,
+            getRightPosition(rightIndex),
+          ),
+          1,
+        );
+
+        for (const { text: value, leftOffset, rightOffset } of morph) {
+          const segmentLeftPosition =
+            leftOffset == null
+              ? null
+              : {
+                  x:
+                    leftPosition.x +
+                    this.measureTextWidth(leftToken.value.slice(0, leftOffset)),
+                  y: leftPosition.y,
+                };
+          const segmentRightPosition =
+            rightOffset == null
+              ? null
+              : getRightPosition(rightIndex, rightOffset);
+
+          let text: Text;
+          let effect: ReturnType<typeof applyTransitionEffect>;
+
+          if (segmentLeftPosition && segmentRightPosition) {
+            text = this.createSegmentText(
+              leftToken,
+              leftSnapshotIndex,
+              leftIndex,
+              leftOffset!,
+              value,
+            );
+            effect = applyTransitionEffect(
+              tokenState.moveProgress,
+              tokenConfig,
+              segmentLeftPosition,
+              segmentRightPosition,
+            );
+          } else if (segmentLeftPosition) {
+            text = this.createSegmentText(
+              leftToken,
+              leftSnapshotIndex,
+              leftIndex,
+              leftOffset!,
+              value,
+            );
+            effect = applyTransitionEffect(
+              1 - tokenState.outProgress,
+              tokenConfig,
+              segmentLeftPosition,
+              segmentLeftPosition,
+            );
+          } else if (typewriter) {
+            // Typed already
+            continue;
+          } else {
+            text = this.createSegmentText(
+              rightToken,
+              rightSnapshotIndex,
+              rightIndex,
+              rightOffset!,
+              value,
+            );
+            effect = applyTransitionEffect(
+              tokenState.inProgress,
+              tokenConfig,
+              segmentRightPosition!,
+              segmentRightPosition!,
+            );
+          }
+
+          text.x = effect.position.x;
+          text.y = effect.position.y;
+          text.alpha =
+            effect.alpha *
+            getOpacity(
+              leftOffset == null ? null : leftIndex,
+              rightOffset == null ? null : rightIndex,
+            );
+          text.scale.set(effect.scale);
+          this.addTokenText(text, leftOffset == null ? rightToken : leftToken);
+        }
       } else {
         // move
         const leftToken = left[leftIndex];
         const leftPosition =
           this.getTokenPositions(leftSnapshotIndex)[leftIndex];
-        const rightPosition =
-          this.getTokenPositions(rightSnapshotIndex)[rightIndex];
+        const rightPosition = getRightPosition(rightIndex);
 
-        const text = this.createText(leftToken, leftSnapshotIndex, leftIndex);
+        const text = this.createMovedText(
+          leftToken,
+          leftSnapshotIndex,
+          leftIndex,
+          right[rightIndex],
+          rightIndex,
+          tokenState.moveProgress,
+        );
+        // The style switches at the midpoint, and so does the background
+        const movedToken =
+          tokenState.moveProgress < 0.5 ? leftToken : right[rightIndex];
+
+        if (typewriter) {
+          // Existing tokens stay visible, only moving aside for the typing
+          const position = applyPositionTransition(
+            tokenState.moveProgress,
+            leftPosition,
+            rightPosition,
+          );
+
+          text.x = position.x;
+          text.y = position.y;
+          text.alpha = getOpacity(leftIndex, rightIndex);
+          text.scale.set(1);
+          this.addTokenText(text, movedToken);
+          trackAnchor(leftIndex, rightIndex, position, 1);
+          continue;
+        }
 
         // Apply transition effects for moved tokens
         const { position, alpha, scale } = applyTransitionEffect(
-          transitionState.moveProgress,
-          transitionConfig,
+          tokenState.moveProgress,
+          tokenConfig,
           leftPosition,
           rightPosition,
         );
 
         text.x = position.x;
         text.y = position.y;
-        text.alpha = alpha;
+        text.alpha = alpha * getOpacity(leftIndex, rightIndex);
         text.scale.set(scale);
-        this.textsContainer.addChild(text);
+        this.addTokenText(text, movedToken);
+        trackAnchor(leftIndex, rightIndex, position, alpha);
       }
     }
+
+    this.renderCallouts(
+      trackingAnchors
+        ? this.getTransitionCalloutFrames(
+            leftSnapshotIndex,
+            leftAnchorStates,
+            rightAnchorStates,
+            easedProgress,
+          )
+        : [],
+    );
+
+    if (typewriter?.caret) {
+      this.renderCaret(
+        typewriter.caret,
+        typewriter.runs.every((run) => run.typedText === run.text),
+      );
+    }
   }
 
   private renderFinalTransition(leftSnapshotIndex: number, progress: number) {
@@ -0,0 +1,88 @@
+import { type Token } from '../tokenize/index';
+
+/**
+ * Where a token is placed once its line is wrapped
+ */
+export interface TokenWrap {
+  /**
+   * The line of the token, 0 based
+   */
+  line: number;
+  /**
+   * The row of the token in its wrapped line, 0 based
+   */
+  row: number;
+  /**
+   * From the start of the line
+   */
+  x: number;
+  /**
+   * How far wrapping moved the token to the left
+   */
+  shift: number;
+}
+
+export interface WrapLayout {
+  tokens: TokenWrap[];
+  /**
+   * The count of rows each line takes
+   */
+  rowsCounts: number[];
+}
+
+/**
+ * Break lines wider than `maxWidth` at token boundaries, continuation rows keep
+ * the indentation of their line. A token wider than a row is never broken,
+ * it overflows the row it starts
+ * @param tokens
+ * @param measureTextWidth Measure a single line text
+ * @param maxWidth Lines are not wrapped without it
+ * @returns
+ */
+export function wrapTokens(
+  tokens: Token[],
+  measureTextWidth: (text: string) => number,
+  maxWidth?: number,
+): WrapLayout {
+  const lines = tokens
+    .map(({ value }) => value)
+    .join('')
+    .split('\n');
+  const indents = lines.map((line) => measureTextWidth(/^\s*/.exec(line)![0]));
+  const rowsCounts = lines.map(() => 1);
+  const wraps: TokenWrap[] = [];
+  let line = 0;
+  let row = 0;
+  let x = 0;
+  // Where the token would be without wrapping
+  let unwrappedX = 0;
+
+  for (const { value } of tokens) {
+    const valueLines = value.split('\n');
+    const firstLineWidth = measureTextWidth(valueLines[0]);
+
+    // Whitespaces may hang over the edge, they are invisible anyway
+    if (
+      maxWidth != null &&
+      x > indents[line] &&
+      x + firstLineWidth > maxWidth &&
+      /\S/.test(valueLines[0])
+    ) {
+      row++;
+      rowsCounts[line] = row + 1;
+      x = indents[line];
+    }
+    wraps.push({ line, row, x, shift: unwrappedX - x });
+
+    if (valueLines.length === 1) {
+      x += firstLineWidth;
+      unwrappedX += firstLineWidth;
+    } else {
+      line += valueLines.length - 1;
+      row = 0;
+      x = unwrappedX = measureTextWidth(valueLines[valueLines.length - 1]);
+    }
+  }
+
+  return { tokens: wraps, rowsCounts };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+import { convertCodeTheme } from '../code-theme';
+import { Theme } from '../index';
+import { ThemeManager } from '../../themes/theme-manager';
+import { type CodeTheme } from '../../themes/types';
+
+const codeTheme: CodeTheme = {
+  id: 'test',
+  name: 'Test',
+  type: 'dark',
+  colors: {
+    'editor.background': '#1e1e1e',
+    'editor.foreground': '#d4d4d4',
+    'editorLineNumber.foreground': '#858585',
+    'editorLineNumber.activeForeground': '#c6c6c6',
+  },
+  tokenColors: [
+    {
+      scope: 'comment',
+      settings: { foreground: '#6a9955', fontStyle: 'italic' },
+    },
+    { scope: ['keyword', 'storage.type'], settings: { foreground: '#569cd6' } },
+    { scope: 'keyword.operator', settings: { foreground: '#d4d4d4' } },
+    { scope: 'keyword', settings: { fontStyle: 'bold' } },
+    {
+      scope: 'string.template, meta.embedded string',
+      settings: { foreground: '#ce9178', background: '#ffffff1f' },
+    },
+  ],
+};
+
+describe('convertCodeTheme', () => {
+  const theme = new Theme(convertCodeTheme(codeTheme));
+
+  it('should take the editor colors', () => {
+    expect(theme.data).toMatchObject({
+      color: '#d4d4d4',
+      backgroundColor: '#1e1e1e',
+      lineNumberColor: '#858585',
+      activeLineNumberColor: '#c6c6c6',
+    });
+  });
+
+  it('should style the Prism types matched by the scopes', () => {
+    expect(theme.getTypesStyle(['comment'])).toEqual({
+      color: '#6a9955',
+      fontStyle: 'italic',
+      fontWeight: 'normal',
+    });
+    expect(theme.getTypesStyle(['string'])).toEqual({
+      color: '#ce9178',
+      backgroundColor: '#ffffff1f',
+    });
+  });
+
+  it('should let the more specific selectors win', () => {
+    expect(theme.getTypesStyle(['operator']).color).toBe('#d4d4d4');
+    expect(theme.getTypesStyle(['keyword'])).toMatchObject({
+      color: '#569cd6',
+      fontWeight: 'bold',
+    });
+  });
+});
+
+describe('Theme.getTheme', () => {
+  it('should convert the themes of the theme manager', () => {
+    expect(Theme.getTheme('monokai').data.backgroundColor).toBe('#272822');
+  });
+
+  it('should share one theme manager between lookups', () => {
+    Theme.getTheme('monokai');
+    vi.mocked(localStorage.getItem).mockClear();
+
+    expect(Theme.getTheme('light-plus').data.backgroundColor).toBeDefined();
+    expect(localStorage.getItem).not.toHaveBeenCalled();
+  });
+
+  it('should convert a theme again once it changes', () => {
+    const storage = new Map<string, string>();
+    vi.mocked(localStorage.getItem).mockImplementation(
+      (key) => storage.get(key) ?? null,
+    );
+    vi.mocked(localStorage.setItem).mockImplementation((key, value) =>
+      storage.set(key, value),
+    );
+    const importTheme = (background: string) =>
+      new ThemeManager(false).importVSCodeTheme(
+        JSON.stringify({
+          name: 'Night',
+          type: 'dark',
+          colors: { 'editor.background': background },
+          tokenColors: [],
+        }),
+      );
+
+    importTheme('#000000');
+    expect(Theme.getTheme('night').data.backgroundColor).toBe('#000000');
+
+    new ThemeManager(false).deleteTheme('night');
+    importTheme('#111111');
+    expect(Theme.getTheme('night').data.backgroundColor).toBe('#111111');
+
+    vi.mocked(localStorage.getItem).mockReset();
+    vi.mocked(localStorage.setItem).mockReset();
+  });
+
+  it('should fall back to the default theme', () => {
+    expect(Theme.getTheme('missing').data).toBe(Theme.getTheme('default').data);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { Theme } from '../index';
+
+describe('Theme', () => {
+  const theme = Theme.getTheme('default');
+
+  it('should merge the styles of Prism types', () => {
+    expect(theme.getTypesStyle(['keyword'])).toEqual(
+      theme.getTypesStyle(['tag']),
+    );
+    expect(theme.getTypesStyle([])).toEqual({});
+  });
+
+  it('should style Lezer tags like their Prism counterparts', () => {
+    expect(theme.getTypesStyle(['definitionKeyword'])).toEqual(
+      theme.getTypesStyle(['keyword']),
+    );
+    expect(theme.getTypesStyle(['variableName', 'function'])).toEqual(
+      theme.getTypesStyle(['variable', 'function']),
+    );
+    expect(theme.getTypesStyle(['typeName'])).toEqual(
+      theme.getTypesStyle(['class-name']),
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { type CodeTheme, type TokenColor } from '../themes/types';
+import { type ThemeData, type ThemeToken, type TokenTextStyle } from './types';
+import defaultTheme from './theme-default';
+
+/**
+ * Prism types and the TextMate scopes VS Code gives the same tokens,
+ * a token color applies to a type when its selector matches one of the scopes
+ */
+const prismTypeScopes: [types: string[], scopes: string[]][] = [
+  [
+    ['comment', 'prolog', 'doctype', 'cdata'],
+    ['comment.line', 'comment.block'],
+  ],
+  [['keyword'], ['keyword.control', 'storage.type', 'storage.modifier']],
+  [['operator'], ['keyword.operator']],
+  [['atrule'], ['keyword.control.at-rule']],
+  [
+    ['string', 'char', 'template-string', 'attr-value'],
+    ['string.quoted', 'string.template'],
+  ],
+  [['regex'], ['string.regexp']],
+  [['number'], ['constant.numeric']],
+  [['boolean', 'constant'], ['constant.language']],
+  [['symbol'], ['constant.other.symbol']],
+  [['entity'], ['constant.character.escape']],
+  [['function'], ['entity.name.function', 'support.function']],
+  [['class-name'], ['entity.name.type', 'entity.name.class', 'support.class']],
+  [['namespace'], ['entity.name.namespace']],
+  [['variable'], ['variable.other']],
+  [['parameter'], ['variable.parameter']],
+  [['property'], ['variable.other.property', 'support.type.property-name']],
+  [['tag'], ['entity.name.tag']],
+  [['attr-name'], ['entity.other.attribute-name']],
+  [['punctuation'], ['punctuation.separator', 'punctuation.terminator']],
+  [['url'], ['markup.underline.link']],
+  [['important'], ['markup.heading']],
+  [['bold'], ['markup.bold']],
+  [['italic'], ['markup.italic']],
+  [['inserted'], ['markup.inserted']],
+  [['deleted'], ['markup.deleted']],
+];
+
+/**
+ * Get the selectors of a token color, descendant selectors like
+ * `meta.tag string` only keep their last scope
+ */
+function getSelectors({ scope }: TokenColor) {
+  const scopes = Array.isArray(scope) ? scope : (scope ?? '').split(',');
+
+  return scopes.flatMap((selector) => {
+    const parts = selector.trim().split(/\s+/);
+    const last = parts[parts.length - 1];
+    return last ? [last] : [];
+  });
+}
+
+function matchesScope(selector: string, scope: string) {
+  return scope === selector || scope.startsWith(`${selector}.`);
+}
+
+function getTokenStyle({
+  foreground,
+  background,
+  fontStyle,
+}: TokenColor['settings']): TokenTextStyle {
+  const style: TokenTextStyle = {};
+  if (foreground) style.color = foreground;
+  if (background) style.backgroundColor = background;
+
+  if (fontStyle != null) {
+    const fontStyles = fontStyle.split(/\s+/);
+    style.fontStyle = fontStyles.includes('italic') ? 'italic' : 'normal';
+    style.fontWeight = fontStyles.includes('bold') ? 'bold' : 'normal';
+  }
+
+  return style;
+}
+
+/**
+ * Convert a theme of the theme manager into a theme of the renderer, like
+ * VS Code, the most specific selector wins and later token colors win ties
+ * @param theme
+ * @returns
+ */
+export function convertCodeTheme({
+  colors,
+  tokenColors,
+}: CodeTheme): ThemeData {
+  const tokenProperties: ThemeToken[] = prismTypeScopes.flatMap(
+    ([types, scopes]) => {
+      const matches = tokenColors.flatMap((tokenColor, index) =>
+        getSelectors(tokenColor)
+          .filter((selector) =>
+            scopes.some((scope) => matchesScope(selector, scope)),
+          )
+          .map((selector) => ({ selector, index, tokenColor })),
+      );
+      if (!matches.length) return [];
+
+      matches.sort(
+        (a, b) => a.selector.length - b.selector.length || a.index - b.index,
+      );
+      const style = Object.assign(
+        {},
+        ...matches.map(({ tokenColor }) => getTokenStyle(tokenColor.settings)),
+      ) as TokenTextStyle;
+
+      return [{ types, style }];
+    },
+  );
+
+  return {
+    fontFace: defaultTheme.fontFace,
+    color: colors['editor.foreground'],
+    backgroundColor: colors['editor.background'],
+    lineHighlightColor: colors['editor.lineHighlightBackground'],
+    calloutBackgroundColor:
+      colors['editorHoverWidget.background'] ??
+      colors['editorWidget.background'] ??
+      colors['editor.selectionBackground'],
+    calloutColor:
+      colors['editorHoverWidget.foreground'] ??
+      colors['editorWidget.foreground'],
+    lineNumberColor: colors['editorLineNumber.foreground'],
+    activeLineNumberColor: colors['editorLineNumber.activeForeground'],
+    tokenProperties,
+  };
+}
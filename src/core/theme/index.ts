@@ -1,12 +1,106 @@
-import memoizerific from 'memoizerific';
 import { type ThemeData, type TokenTextStyle } from './types';
 import defaultTheme from './theme-default';
+import { convertCodeTheme } from './code-theme';
+import { ThemeManager } from '../themes/theme-manager';
 
 const themes = {
   default: defaultTheme,
 };
 
-export type ThemeName = keyof typeof themes;
+/**
+ * A theme of the renderer, or the id of a theme of the theme manager
+ */
+export type ThemeName = keyof typeof themes | (string & {});
+
+/**
+ * Lezer highlight tag names mapped to the Prism types themes are written for,
+ * used when a theme has no style for the tag name itself
+ */
+const lezerTagTypes: Record<string, string> = {
+  comment: 'comment',
+  lineComment: 'comment',
+  blockComment: 'comment',
+  docComment: 'comment',
+  keyword: 'keyword',
+  controlKeyword: 'keyword',
+  definitionKeyword: 'keyword',
+  moduleKeyword: 'keyword',
+  operatorKeyword: 'keyword',
+  modifier: 'keyword',
+  self: 'keyword',
+  variableName: 'variable',
+  propertyName: 'property',
+  typeName: 'class-name',
+  className: 'class-name',
+  namespace: 'namespace',
+  function: 'function',
+  string: 'string',
+  docString: 'string',
+  character: 'char',
+  special: 'regex',
+  regexp: 'regex',
+  escape: 'entity',
+  url: 'url',
+  number: 'number',
+  integer: 'number',
+  float: 'number',
+  bool: 'boolean',
+  null: 'constant',
+  atom: 'constant',
+  constant: 'constant',
+  operator: 'operator',
+  arithmeticOperator: 'operator',
+  logicOperator: 'operator',
+  bitwiseOperator: 'operator',
+  compareOperator: 'operator',
+  updateOperator: 'operator',
+  definitionOperator: 'operator',
+  typeOperator: 'operator',
+  controlOperator: 'operator',
+  punctuation: 'punctuation',
+  separator: 'punctuation',
+  bracket: 'punctuation',
+  angleBracket: 'punctuation',
+  squareBracket: 'punctuation',
+  paren: 'punctuation',
+  brace: 'punctuation',
+  derefOperator: 'punctuation',
+  tagName: 'tag',
+  attributeName: 'attr-name',
+  attributeValue: 'attr-value',
+  meta: 'atrule',
+  processingInstruction: 'prolog',
+  documentMeta: 'prolog',
+  heading: 'important',
+  strong: 'bold',
+  emphasis: 'italic',
+  link: 'url',
+  inserted: 'inserted',
+  deleted: 'deleted',
+};
+
+/**
+ * Looks the themes of the theme manager up, created again once they change
+ */
+let themeManager: ThemeManager | null = null;
+
+/**
+ * The themes by name, themes of the theme manager are only converted once
+ */
+const cachedThemes = new Map<ThemeName, Theme>();
+
+ThemeManager.addChangeListener((id) => {
+  // Only a new manager reads the themes other managers changed
+  themeManager = null;
+  cachedThemes.delete(id);
+});
+
+function getCodeThemeData(id: string) {
+  // Only look the theme up, the editor applies the current theme itself
+  themeManager ??= new ThemeManager(false);
+  const codeTheme = themeManager.getTheme(id);
+  return codeTheme ? convertCodeTheme(codeTheme) : null;
+}
 
 export class Theme {
   private readonly typeStyleMap: Map<string, TokenTextStyle>;
@@ -34,7 +128,9 @@ export class Theme {
   getTypesStyle(types: string[]) {
     const style: TokenTextStyle = {};
     for (const type of types) {
-      const typeStyle = this.typeStyleMap.get(type);
+      const typeStyle =
+        this.typeStyleMap.get(type) ??
+        this.typeStyleMap.get(lezerTagTypes[type]);
       Object.assign(style, typeStyle);
     }
 
@@ -42,8 +138,16 @@ export class Theme {
   }
 
   static getTheme(themeName: ThemeName) {
-    return new Theme(themes[themeName]);
+    let theme = cachedThemes.get(themeName);
+    if (!theme) {
+      theme = new Theme(
+        Object.prototype.hasOwnProperty.call(themes, themeName)
+          ? themes[themeName as keyof typeof themes]
+          : (getCodeThemeData(themeName) ?? themes.default),
+      );
+      cachedThemes.set(themeName, theme);
+    }
+
+    return theme;
   }
 }
-
-Theme.getTheme = memoizerific(100)(Theme.getTheme);
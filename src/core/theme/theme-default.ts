@@ -9,6 +9,12 @@ const defaultTheme: ThemeData = {
     'ui-monospace,SFMono-Regular,"SF Mono",Menlo,Consolas,"Liberation Mono",monospace',
   color: '#c5c8c6',
   backgroundColor: '#000',
+  lineHighlightColor: '#ffffff1f',
+  calloutBackgroundColor: '#3a3f4b',
+  calloutColor: '#ffffff',
+  calloutAccentColor: '#F9EE98',
+  lineNumberColor: '#858585',
+  activeLineNumberColor: '#c6c6c6',
   tokenProperties: [
     {
       types: ['comment', 'prolog', 'doctype', 'cdata'],
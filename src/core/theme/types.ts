@@ -2,13 +2,39 @@ export interface BaseStyles {
   fontFace: string;
   color: string;
   backgroundColor: string;
+  /**
+   * Fill of the bands behind highlighted lines
+   */
+  lineHighlightColor?: string;
+  /**
+   * Fill of the callout bubbles
+   */
+  calloutBackgroundColor?: string;
+  /**
+   * Text of the callouts
+   */
+  calloutColor?: string;
+  /**
+   * Arrows and squiggles of the callouts
+   */
+  calloutAccentColor?: string;
+  /**
+   * Line numbers of the gutter, like `editorLineNumber.foreground`
+   */
+  lineNumberColor?: string;
+  /**
+   * Line numbers of highlighted lines, like `editorLineNumber.activeForeground`
+   */
+  activeLineNumberColor?: string;
 }
 
 export interface TokenTextStyle {
   fontWeight?: number | string;
   fontStyle?: string;
   color?: string;
-  // not supported
+  /**
+   * Fill of a rounded rect drawn behind the token
+   */
   backgroundColor?: string;
   opacity?: number;
 }
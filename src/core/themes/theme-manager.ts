@@ -6,16 +6,33 @@ import {
   BUILTIN_THEMES,
 } from './types';
 
+/**
+ * Notified with the id of a theme any manager adds, updates or removes
+ */
+const changeListeners = new Set<(id: string) => void>();
+
 export class ThemeManager {
   private themes: Map<string, CodeTheme> = new Map();
   private currentThemeId: string = 'dark-plus';
   private storageKey = 'diffani-code-themes';
   private currentThemeKey = 'diffani-current-theme';
 
-  constructor() {
+  /**
+   * @param applyCurrentTheme Apply the saved current theme to the page,
+   * managers that only look themes up leave the page alone
+   */
+  constructor(applyCurrentTheme = true) {
     this.initializeBuiltinThemes();
     this.loadFromStorage();
-    this.loadCurrentTheme();
+    this.loadCurrentTheme(applyCurrentTheme);
+  }
+
+  static addChangeListener(listener: (id: string) => void): void {
+    changeListeners.add(listener);
+  }
+
+  static removeChangeListener(listener: (id: string) => void): void {
+    changeListeners.delete(listener);
   }
 
   /**
@@ -98,6 +115,7 @@ export class ThemeManager {
       // Add to themes collection
       this.themes.set(theme.id, theme);
       this.saveToStorage();
+      this.notifyChange(theme.id);
 
       return {
         success: true,
@@ -156,6 +174,7 @@ export class ThemeManager {
 
     this.themes.set(customTheme.id, customTheme);
     this.saveToStorage();
+    this.notifyChange(customTheme.id);
     return customTheme;
   }
 
@@ -176,6 +195,7 @@ export class ThemeManager {
     }
 
     this.saveToStorage();
+    this.notifyChange(id);
     return true;
   }
 
@@ -353,6 +373,10 @@ export class ThemeManager {
     return id;
   }
 
+  private notifyChange(id: string): void {
+    changeListeners.forEach((listener) => listener(id));
+  }
+
   /**
    * Save themes to localStorage
    */
@@ -399,13 +423,15 @@ export class ThemeManager {
   /**
    * Load current theme from localStorage
    */
-  private loadCurrentTheme(): void {
+  private loadCurrentTheme(apply: boolean): void {
     try {
       const savedTheme = localStorage.getItem(this.currentThemeKey);
       if (savedTheme && this.themes.has(savedTheme)) {
         this.currentThemeId = savedTheme;
       }
-      this.applyTheme(this.getCurrentTheme());
+      if (apply) {
+        this.applyTheme(this.getCurrentTheme());
+      }
     } catch (error) {
       console.error('Failed to load current theme:', error);
     }
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseDirectives,
+  toCodeLine,
+  toCodeOffset,
+  toSourceOffset,
+} from '../directives';
+import { CalloutType } from '../../doc/callout';
+
+describe('parseDirectives', () => {
+  it('should keep code without directives', () => {
+    const code = 'const a = 1;\n// a comment\nconst b = [2];';
+
+    expect(parseDirectives(code)).toMatchObject({
+      code,
+      highlights: [],
+      focus: undefined,
+      callouts: [],
+      collapsed: [],
+    });
+  });
+
+  it('should strip trailing directives and highlight their lines', () => {
+    const { code, highlights } = parseDirectives(
+      'a();\nb(); // [!highlight]\nc(); // [!highlight]\nd();',
+    );
+
+    expect(code).toBe('a();\nb();\nc();\nd();');
+    expect(highlights).toEqual([{ startLine: 2, endLine: 3 }]);
+  });
+
+  it('should apply directives on their own lines to the next line', () => {
+    const { code, highlights } = parseDirectives(
+      'a();\n  // [!highlight]\nb();',
+    );
+
+    expect(code).toBe('a();\nb();');
+    expect(highlights).toEqual([{ startLine: 2, endLine: 2 }]);
+  });
+
+  it('should cover the focused lines', () => {
+    const { focus } = parseDirectives(
+      'a(); # [!focus]\nb();\nc(); /* [!focus] */',
+    );
+
+    expect(focus).toEqual({ startLine: 1, endLine: 3 });
+  });
+
+  it('should collapse the hidden lines', () => {
+    const { code, highlights, collapsed } = parseDirectives(
+      'a();\n// [!hide-start]\nsetup();\n// [!hide-end]\nb(); // [!highlight]',
+    );
+
+    expect(code).toBe('a();\nsetup();\nb();');
+    expect(collapsed).toEqual([{ startLine: 2, endLine: 2 }]);
+    expect(highlights).toEqual([{ startLine: 3, endLine: 3 }]);
+  });
+
+  it('should hide the lines of trailing markers', () => {
+    const { code, collapsed } = parseDirectives(
+      'a(); // [!hide-start]\nb();\nc(); // [!hide-end]\nd();',
+    );
+
+    expect(code).toBe('a();\nb();\nc();\nd();');
+    expect(collapsed).toEqual([{ startLine: 1, endLine: 3 }]);
+  });
+
+  it('should remove marker lines without hiding other lines', () => {
+    const { code, collapsed } = parseDirectives(
+      'a();\n// [!hide-start]\n// [!hide-end]\nb();',
+    );
+
+    expect(code).toBe('a();\nb();');
+    expect(collapsed).toEqual([]);
+  });
+
+  it('should apply directives after the last line to the last line', () => {
+    const { code, highlights, callouts } = parseDirectives(
+      'a();\nb();\n// [!highlight]\n// [!callout: end]',
+    );
+
+    expect(code).toBe('a();\nb();');
+    expect(highlights).toEqual([{ startLine: 2, endLine: 2 }]);
+    expect(callouts).toEqual([
+      {
+        id: 'directive:end',
+        type: CalloutType.BUBBLE,
+        text: 'end',
+        anchor: { startLine: 2, endLine: 2 },
+      },
+    ]);
+  });
+
+  it('should drop directives without any line of code', () => {
+    expect(parseDirectives('// [!highlight]')).toMatchObject({
+      code: '',
+      highlights: [],
+    });
+  });
+
+  it('should turn callouts into bubbles on their lines', () => {
+    const { code, callouts } = parseDirectives(
+      'a();\nb(); <!-- [!callout: Why b?] -->',
+    );
+
+    expect(code).toBe('a();\nb();');
+    expect(callouts).toEqual([
+      {
+        id: 'directive:Why b?',
+        type: CalloutType.BUBBLE,
+        text: 'Why b?',
+        anchor: { startLine: 2, endLine: 2 },
+      },
+    ]);
+  });
+
+  it('should give callouts with the same text different ids', () => {
+    const { callouts } = parseDirectives(
+      'a(); // [!callout: Same]\nb(); // [!callout: Same]',
+    );
+
+    expect(callouts.map((callout) => callout.id)).toEqual([
+      'directive:Same',
+      'directive:Same:1',
+    ]);
+  });
+
+  it('should map source lines to the stripped code', () => {
+    const { sourceLines } = parseDirectives(
+      'a();\n// [!highlight]\nb();\nc();\n// [!focus]',
+    );
+
+    expect(
+      [1, 2, 3, 4, 5].map((line) => toCodeLine(sourceLines, line)),
+    ).toEqual([1, 2, 2, 3, 3]);
+  });
+
+  it('should map offsets between the source and the stripped code', () => {
+    const source = 'a();\n// [!focus]\nfoo(); // [!highlight]\nbar();';
+    const { code, sourceLines } = parseDirectives(source);
+    const fooOffset = source.indexOf('foo');
+    const barOffset = source.indexOf('bar');
+
+    expect(code).toBe('a();\nfoo();\nbar();');
+    expect(toCodeOffset(sourceLines, fooOffset)).toBe(code.indexOf('foo'));
+    expect(toCodeOffset(sourceLines, barOffset)).toBe(code.indexOf('bar'));
+    // Offsets in stripped directives stick to the end of their line
+    expect(toCodeOffset(sourceLines, source.indexOf('//', fooOffset))).toBe(
+      code.indexOf('\nbar'),
+    );
+    expect(toSourceOffset(sourceLines, code.indexOf('foo'))).toBe(fooOffset);
+    expect(toSourceOffset(sourceLines, code.indexOf('bar'))).toBe(barOffset);
+  });
+});
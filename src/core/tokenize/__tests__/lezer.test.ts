@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { javascript } from '@codemirror/lang-javascript';
+import { tokenizeWithParser } from '../lezer';
+
+const parser = javascript().language.parser;
+
+describe('tokenizeWithParser', () => {
+  it('should cover the whole code', () => {
+    const code = 'const answer = compute(42); // done\n';
+    const tokens = tokenizeWithParser(code, parser);
+
+    expect(tokens.map((token) => token.value).join('')).toBe(code);
+  });
+
+  it('should use highlight tag names as types', () => {
+    const tokens = tokenizeWithParser('const answer = compute(42);', parser);
+    const getTypes = (value: string) =>
+      tokens.find((token) => token.value === value)?.types;
+
+    expect(getTypes('const')).toEqual(['definitionKeyword']);
+    expect(getTypes('answer')).toEqual(['variableName', 'definition']);
+    expect(getTypes('compute')).toEqual(['variableName', 'function']);
+    expect(getTypes('42')).toEqual(['number']);
+  });
+
+  it('should leave unhighlighted ranges without types', () => {
+    const tokens = tokenizeWithParser('a\n\nb', parser);
+
+    expect(tokens).toContainEqual({ value: '\n\n', types: [] });
+  });
+
+  it('should treat code as plain text without a parser', () => {
+    expect(tokenizeWithParser('fn main', undefined)).toEqual([
+      { value: 'fn main', types: [] },
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+import { type CodeRange, type LineSpan } from '../doc/raw-doc';
+import { type Callout, CalloutType } from '../doc/callout';
+import { type TextRange } from '../transition/mutation';
+
+/**
+ * A directive in a trailing comment, like `// [!highlight]` or `# [!callout: text]`
+ */
+const DIRECTIVE_PATTERN =
+  /\s*(?:\/\/|#|--|\/\*|<!--)\s*\[!(highlight|focus|hide-start|hide-end|callout)(?::\s*([^\]]*?))?\s*\]\s*(?:\*\/|-->)?\s*$/;
+
+export enum DirectiveType {
+  HIGHLIGHT = 'highlight',
+  FOCUS = 'focus',
+  HIDE_START = 'hide-start',
+  HIDE_END = 'hide-end',
+  CALLOUT = 'callout',
+}
+
+interface Directive {
+  type: DirectiveType;
+  text: string;
+}
+
+/**
+ * Where a line of the source code ends up in the stripped code
+ */
+export interface SourceLine {
+  /**
+   * The line (0 based) of the stripped code, a removed line points to
+   * the line its directives apply to
+   */
+  line: number;
+  /**
+   * Whether the line only held directives
+   */
+  removed: boolean;
+  /**
+   * Where the line starts in the source code
+   */
+  sourceOffset: number;
+  /**
+   * Where the line starts in the stripped code
+   */
+  offset: number;
+  /**
+   * The count of characters kept from the line
+   */
+  length: number;
+}
+
+/**
+ * The render metadata written into the code
+ */
+export interface CodeDirectives {
+  /**
+   * The code without the directives
+   */
+  code: string;
+  highlights: LineSpan[];
+  /**
+   * Covers every focused line, `undefined` when no line is focused
+   */
+  focus?: CodeRange;
+  callouts: Callout[];
+  /**
+   * The hidden lines, they are folded into a placeholder
+   */
+  collapsed: LineSpan[];
+  /**
+   * Array[sourceLine] represent for where the line is in the stripped code
+   */
+  sourceLines: SourceLine[];
+}
+
+/**
+ * Group sorted lines (0 based) into ranges
+ */
+function toLineRanges(lines: number[]): LineSpan[] {
+  const ranges: LineSpan[] = [];
+
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.endLine === line) {
+      last.endLine = line + 1;
+    } else {
+      ranges.push({ startLine: line + 1, endLine: line + 1 });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Strip the directives from code and turn them into render metadata.
+ * A directive after code applies to its own line, a directive on a line
+ * of its own applies to the next line, or to the last line when no line
+ * follows, and the lines between `[!hide-start]` and `[!hide-end]` are collapsed
+ * @param code
+ * @returns Line numbers refer to the stripped code
+ */
+export function parseDirectives(code: string): CodeDirectives {
+  const lines: string[] = [];
+  const highlightedLines: number[] = [];
+  const focusedLines: number[] = [];
+  const hiddenLines: number[] = [];
+  const callouts: Callout[] = [];
+  const sourceLines: SourceLine[] = [];
+  let pending: Directive[] = [];
+  let hiding = false;
+  let sourceOffset = 0;
+  let offset = 0;
+
+  const applyDirectives = (directives: Directive[], line: number) => {
+    for (const { type, text } of directives) {
+      switch (type) {
+        case DirectiveType.HIGHLIGHT:
+          highlightedLines.push(line);
+          break;
+        case DirectiveType.FOCUS:
+          focusedLines.push(line);
+          break;
+        case DirectiveType.CALLOUT: {
+          // Ids follow the text, so the callout moves with its line across snapshots
+          const sameTextCount = callouts.filter(
+            (callout) => callout.text === text,
+          ).length;
+          callouts.push({
+            id: `directive:${text}${sameTextCount ? `:${sameTextCount}` : ''}`,
+            type: CalloutType.BUBBLE,
+            text,
+            anchor: { startLine: line + 1, endLine: line + 1 },
+          });
+          break;
+        }
+      }
+    }
+  };
+
+  for (const sourceLine of code.split('\n')) {
+    const match = DIRECTIVE_PATTERN.exec(sourceLine);
+    const directive: Directive | null = match
+      ? { type: match[1] as DirectiveType, text: match[2] ?? '' }
+      : null;
+    const content = match ? sourceLine.slice(0, match.index) : sourceLine;
+    const removed = Boolean(directive && !content.trim());
+
+    sourceLines.push({
+      line: lines.length,
+      removed,
+      sourceOffset,
+      offset,
+      length: removed ? 0 : content.length,
+    });
+    sourceOffset += sourceLine.length + 1;
+
+    // A marker after code hides its own line, a marker line is removed
+    const wasHiding = hiding;
+    if (directive?.type === DirectiveType.HIDE_START) {
+      hiding = true;
+    } else if (directive?.type === DirectiveType.HIDE_END) {
+      hiding = false;
+    } else if (directive && removed) {
+      pending.push(directive);
+    }
+    if (removed) continue;
+
+    const line = lines.length;
+    if (hiding || wasHiding) hiddenLines.push(line);
+    applyDirectives(directive ? [...pending, directive] : pending, line);
+    pending = [];
+    lines.push(content);
+    offset += content.length + 1;
+  }
+
+  if (lines.length) applyDirectives(pending, lines.length - 1);
+
+  const strippedCode = lines.join('\n');
+  // Trailing removed lines point to the end of the code
+  for (const sourceLine of sourceLines) {
+    if (sourceLine.line === lines.length) {
+      sourceLine.line = Math.max(lines.length - 1, 0);
+      sourceLine.offset = strippedCode.length;
+    }
+  }
+
+  return {
+    code: strippedCode,
+    highlights: toLineRanges([...new Set(highlightedLines)]),
+    focus: focusedLines.length
+      ? {
+          startLine: Math.min(...focusedLines) + 1,
+          endLine: Math.max(...focusedLines) + 1,
+        }
+      : undefined,
+    callouts,
+    collapsed: toLineRanges(hiddenLines),
+    sourceLines,
+  };
+}
+
+/**
+ * Map a line (1 based) of the source code to the stripped code
+ * @param sourceLines
+ * @param line
+ * @returns
+ */
+export function toCodeLine(sourceLines: SourceLine[], line: number) {
+  const sourceLine =
+    sourceLines[Math.min(Math.max(line - 1, 0), sourceLines.length - 1)];
+  return sourceLine.line + 1;
+}
+
+/**
+ * Map the lines of a source code range to the stripped code, columns are kept
+ * since only the ends of lines are stripped
+ * @param sourceLines
+ * @param range
+ * @returns
+ */
+export function toCodeRange<T extends LineSpan>(
+  sourceLines: SourceLine[],
+  range: T,
+): T {
+  return {
+    ...range,
+    startLine: toCodeLine(sourceLines, range.startLine),
+    endLine: toCodeLine(sourceLines, range.endLine),
+  };
+}
+
+/**
+ * Map a character offset of the source code to the stripped code
+ * @param sourceLines
+ * @param offset
+ * @returns
+ */
+export function toCodeOffset(sourceLines: SourceLine[], offset: number) {
+  let sourceLine = sourceLines[0];
+  for (const current of sourceLines) {
+    if (current.sourceOffset > offset) break;
+    sourceLine = current;
+  }
+
+  return (
+    sourceLine.offset +
+    Math.min(Math.max(offset - sourceLine.sourceOffset, 0), sourceLine.length)
+  );
+}
+
+/**
+ * Map a character offset of the stripped code back to the source code
+ * @param sourceLines
+ * @param offset
+ * @returns
+ */
+export function toSourceOffset(sourceLines: SourceLine[], offset: number) {
+  let sourceLine = sourceLines[0];
+  for (const current of sourceLines) {
+    if (current.removed) continue;
+    if (current.offset > offset) break;
+    sourceLine = current;
+  }
+
+  return sourceLine.sourceOffset + Math.max(offset - sourceLine.offset, 0);
+}
+
+/**
+ * Map a text range of the source code to the stripped code
+ * @param sourceLines
+ * @param range
+ * @returns
+ */
+export function toCodeTextRange(
+  sourceLines: SourceLine[],
+  { start, end }: TextRange,
+): TextRange {
+  return {
+    start: toCodeOffset(sourceLines, start),
+    end: toCodeOffset(sourceLines, end),
+  };
+}
@@ -1,7 +1,8 @@
 import Prism, { type TokenStream } from 'prismjs';
 import memoize from 'memoizerific';
-import { type Language } from '../code-languages/languages';
+import { type LanguageId, getLanguage } from '../code-languages/languages';
 import { isSpaces, splitToTokens } from '../../utils/string';
+import { lezerTokenizer } from './lezer';
 
 export interface BaseToken {
   value: string;
@@ -9,6 +10,18 @@ export interface BaseToken {
 }
 export type Token = BaseToken;
 
+export type TokenizerName = 'prism' | 'lezer';
+
+/**
+ * A tokenizer backend turns code into `BaseToken[]`,
+ * the tokens will be split at word boundaries afterwards
+ */
+export interface TokenizerBackend {
+  id: TokenizerName;
+  name: string;
+  tokenize: (code: string, language: LanguageId) => BaseToken[];
+}
+
 /**
  * Recursive map prism tokens tree to a flat token array
  * Notice that currently `index` `line` `col ` has not been initialed, we will do it later
@@ -33,9 +46,9 @@ function flattenPrismTokens(
     ];
   }
 
-  const joinedTypes = types?.includes(tokens.type)
-    ? types
-    : [...(types ?? []), tokens.type];
+  // Compiled grammars suffix their keys with `#index` to give a type several ordered keys
+  const type = tokens.type.split('#')[0];
+  const joinedTypes = types?.includes(type) ? types : [...(types ?? []), type];
 
   if (typeof tokens.content === 'string') {
     return [
@@ -81,10 +94,30 @@ function processTokensWithAttrs(baseTokens: BaseToken[]) {
   return tokens;
 }
 
-export function parseCodeToFormattedTokens(code: string, language: Language) {
-  const baseTokens = flattenPrismTokens(
-    Prism.tokenize(code, Prism.languages[language]),
+const prismTokenizer: TokenizerBackend = {
+  id: 'prism',
+  name: 'Prism',
+  tokenize: (code, language) =>
+    flattenPrismTokens(Prism.tokenize(code, getLanguage(language).grammar)),
+};
+
+export const DEFAULT_TOKENIZER: TokenizerName = 'prism';
+
+export const TOKENIZERS: TokenizerBackend[] = [prismTokenizer, lezerTokenizer];
+
+export function getTokenizer(id?: string) {
+  return (
+    TOKENIZERS.find((tokenizer) => tokenizer.id === id) ??
+    TOKENIZERS.find((tokenizer) => tokenizer.id === DEFAULT_TOKENIZER)!
   );
+}
+
+export function parseCodeToFormattedTokens(
+  code: string,
+  language: LanguageId,
+  tokenizer: TokenizerName = DEFAULT_TOKENIZER,
+) {
+  const baseTokens = getTokenizer(tokenizer).tokenize(code, language);
 
   return processTokensWithAttrs(baseTokens);
 }
@@ -93,6 +126,19 @@ export function isTokenSpaces(token: Token) {
   return isSpaces(token.value);
 }
 
-export const memoizedParseCodeToFormattedTokens = memoize(256)(
-  parseCodeToFormattedTokens,
-);
+let memoizedParse = memoize(256)(parseCodeToFormattedTokens);
+
+export function memoizedParseCodeToFormattedTokens(
+  code: string,
+  language: LanguageId,
+  tokenizer?: TokenizerName,
+) {
+  return memoizedParse(code, language, tokenizer);
+}
+
+/**
+ * Forget the memoized tokens, the code was parsed with languages that changed since
+ */
+export function clearMemoizedTokens() {
+  memoizedParse = memoize(256)(parseCodeToFormattedTokens);
+}
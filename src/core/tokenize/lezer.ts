@@ -0,0 +1,86 @@
+import {
+  type Tag,
+  highlightTree,
+  tagHighlighter,
+  tags,
+} from '@lezer/highlight';
+import { type SyntaxParser } from '../transition/structural';
+import { getSyntaxParser } from '../code-languages/languages';
+import { type BaseToken, type TokenizerBackend } from './index';
+
+/**
+ * Every plain (non-modifier) tag exported by `@lezer/highlight` is mapped to its own name,
+ * so `Token.types` ends up holding tag names like `keyword` or `variableName`
+ */
+const baseTagStyles = Object.entries(tags)
+  .filter((entry): entry is [string, Tag] => typeof entry[1] !== 'function')
+  .map(([name, tag]) => ({ tag, class: name }));
+
+/**
+ * Modified tags the themes care about, listed from the base tag to the modifier
+ * in the same parent-to-child order Prism types use
+ */
+const modifiedTagStyles = [
+  {
+    tag: tags.function(tags.definition(tags.variableName)),
+    class: 'variableName definition function',
+  },
+  { tag: tags.function(tags.variableName), class: 'variableName function' },
+  { tag: tags.function(tags.propertyName), class: 'propertyName function' },
+  { tag: tags.definition(tags.variableName), class: 'variableName definition' },
+  { tag: tags.definition(tags.propertyName), class: 'propertyName definition' },
+  { tag: tags.constant(tags.variableName), class: 'variableName constant' },
+  { tag: tags.standard(tags.variableName), class: 'variableName standard' },
+  { tag: tags.special(tags.string), class: 'string special' },
+];
+
+const lezerHighlighter = tagHighlighter([
+  ...modifiedTagStyles,
+  ...baseTagStyles,
+]);
+
+/**
+ * Tokenize code with a Lezer parser, the highlight tags of each range become its types
+ * Ranges without any highlight tag get empty types, same as plain strings in Prism,
+ * and without a parser the whole code is plain text
+ * @param code
+ * @param parser
+ * @returns
+ */
+export function tokenizeWithParser(
+  code: string,
+  parser: SyntaxParser | undefined,
+): BaseToken[] {
+  if (!parser) {
+    return code ? [{ value: code, types: [] }] : [];
+  }
+
+  const tokens: BaseToken[] = [];
+  let position = 0;
+
+  const pushPlain = (end: number) => {
+    if (end > position) {
+      tokens.push({ value: code.slice(position, end), types: [] });
+    }
+  };
+
+  highlightTree(parser.parse(code), lezerHighlighter, (from, to, classes) => {
+    pushPlain(from);
+    tokens.push({
+      value: code.slice(from, to),
+      types: [...new Set(classes.split(' '))],
+    });
+    position = to;
+  });
+
+  pushPlain(code.length);
+
+  return tokens;
+}
+
+export const lezerTokenizer: TokenizerBackend = {
+  id: 'lezer',
+  name: 'Lezer',
+  tokenize: (code, language) =>
+    tokenizeWithParser(code, getSyntaxParser(language)),
+};
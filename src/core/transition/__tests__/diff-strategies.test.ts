@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DIFF_STRATEGIES,
+  DEFAULT_DIFF_STRATEGY,
+  getDiffStrategy,
+  registerDiffStrategy,
+  type SequenceMatches,
+} from '../diff-strategies';
+
+function isValidAlignment(
+  matches: SequenceMatches,
+  leftKeys: string[],
+  rightKeys: string[],
+) {
+  return matches.every(
+    ([leftIndex, rightIndex], index) =>
+      leftKeys[leftIndex] === rightKeys[rightIndex] &&
+      (index === 0 ||
+        (leftIndex > matches[index - 1][0] &&
+          rightIndex > matches[index - 1][1])),
+  );
+}
+
+describe('diff strategies', () => {
+  const leftKeys = ['a', '{', 'b', '}', 'c', '{', 'd', '}'];
+  const rightKeys = ['c', '{', 'd', '}', 'a', '{', 'b', 'e', '}'];
+
+  it.each(DIFF_STRATEGIES.map((strategy) => [strategy.id, strategy]))(
+    '%s should produce a valid alignment',
+    (_, strategy) => {
+      const matches = strategy.func(leftKeys, rightKeys);
+
+      expect(isValidAlignment(matches, leftKeys, rightKeys)).toBe(true);
+      expect(matches.length).toBeGreaterThan(0);
+    },
+  );
+
+  it.each(DIFF_STRATEGIES.map((strategy) => [strategy.id, strategy]))(
+    '%s should match identical sequences completely',
+    (_, strategy) => {
+      expect(strategy.func(leftKeys, leftKeys)).toEqual(
+        leftKeys.map((_, index) => [index, index]),
+      );
+    },
+  );
+
+  it('patience should anchor on unique items', () => {
+    const left = ['}', 'foo', '}', 'bar', '}'];
+    const right = ['}', 'bar', '}', 'foo', '}'];
+    const matches = getDiffStrategy('patience').func(left, right);
+
+    expect(isValidAlignment(matches, left, right)).toBe(true);
+    expect(
+      matches.some(
+        ([leftIndex, rightIndex]) =>
+          left[leftIndex] === 'foo' || right[rightIndex] === 'bar',
+      ),
+    ).toBe(true);
+  });
+
+  it('character should only match items kept as a whole', () => {
+    const matches = getDiffStrategy('character').func(
+      ['foo', 'Bar', '('],
+      ['fooBar', '('],
+    );
+
+    expect(matches).toEqual([[2, 1]]);
+  });
+
+  it('should fall back to the default strategy', () => {
+    expect(getDiffStrategy('unknown').id).toBe(DEFAULT_DIFF_STRATEGY);
+    expect(getDiffStrategy().id).toBe(DEFAULT_DIFF_STRATEGY);
+  });
+
+  describe('custom strategies', () => {
+    afterEach(() => {
+      const index = DIFF_STRATEGIES.findIndex(({ id }) => id === 'nothing');
+      if (index !== -1) DIFF_STRATEGIES.splice(index, 1);
+    });
+
+    it('should register custom strategies', () => {
+      registerDiffStrategy({
+        id: 'nothing',
+        name: 'Nothing',
+        func: () => [],
+        description: 'Never matches',
+      });
+
+      expect(getDiffStrategy('nothing').func(['a'], ['a'])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { createMutation, getTokenIndexRange } from '../mutation';
+import { type Token } from '../../tokenize/index';
+import { getPairs, tokenize } from '../../../test-utils';
+
+describe('createMutation', () => {
+  it('should cover every token of both sides exactly once', () => {
+    const left = tokenize('const a = 1;\nconst b = 2;\nfoo(a, b);');
+    const right = tokenize('const a = 1;\nbar();\nfoo(b, a);\n');
+    const { diffs } = createMutation(left, right);
+
+    const leftIndexes = diffs
+      .map((diff) => diff.leftIndex)
+      .filter((index) => index != null)
+      .sort((a, b) => a! - b!);
+    const rightIndexes = diffs
+      .map((diff) => diff.rightIndex)
+      .filter((index) => index != null)
+      .sort((a, b) => a! - b!);
+
+    expect(leftIndexes).toEqual(left.map((_, index) => index));
+    expect(rightIndexes).toEqual(right.map((_, index) => index));
+  });
+
+  it('should align lines before diffing tokens', () => {
+    const left = tokenize('a = 1;\nb = 2;\nc = 3;');
+    const right = tokenize('a = 1;\nb = 5;\nd = 4;\nc = 3;');
+    const { lines } = createMutation(left, right);
+
+    expect(lines).toEqual([
+      { kind: 'unchanged', leftLine: 0, rightLine: 0 },
+      { kind: 'modified', leftLine: 1, rightLine: 1 },
+      { kind: 'added', leftLine: null, rightLine: 2 },
+      { kind: 'unchanged', leftLine: 2, rightLine: 3 },
+    ]);
+  });
+
+  it('should not pair tokens across unrelated lines', () => {
+    const left = tokenize('value;\nfirst();');
+    const right = tokenize('second();\nthird();\nvalue;');
+    const mutation = createMutation(left, right);
+    const pairs = getPairs(mutation.diffs, left, right);
+
+    expect(pairs).not.toContainEqual(['first', 'second']);
+    expect(pairs).toContainEqual(['value', 'value']);
+  });
+
+  it('should pair tokens inside modified lines', () => {
+    const left = tokenize('foo(a, b);');
+    const right = tokenize('foo(a, c);');
+    const { diffs, lines } = createMutation(left, right);
+
+    expect(lines).toEqual([{ kind: 'modified', leftLine: 0, rightLine: 0 }]);
+    expect(getPairs(diffs, left, right)).toContainEqual(['foo', 'foo']);
+    expect(diffs).toContainEqual({
+      leftIndex: left.findIndex((token) => token.value === 'b'),
+      rightIndex: null,
+    });
+  });
+
+  it('should create a mutation from two tokens lists', () => {
+    const left = tokenize('hello new world');
+    const right = tokenize('hello world!');
+
+    expect(createMutation(left, right)).toEqual({
+      diffs: [
+        { leftIndex: 0, rightIndex: 0 },
+        { leftIndex: 1, rightIndex: 1 },
+        { leftIndex: 2, rightIndex: null },
+        { leftIndex: 3, rightIndex: null },
+        { leftIndex: 4, rightIndex: 2 },
+        { leftIndex: null, rightIndex: 3 },
+      ],
+      left,
+      right,
+      lines: [{ kind: 'modified', leftLine: 0, rightLine: 0 }],
+    });
+  });
+
+  it('should treat dissimilar lines as removed and added', () => {
+    const left = tokenize('alpha beta gamma');
+    const right = tokenize('one two three');
+    const { lines } = createMutation(left, right);
+
+    expect(lines).toEqual([
+      { kind: 'removed', leftLine: 0, rightLine: null },
+      { kind: 'added', leftLine: null, rightLine: 0 },
+    ]);
+  });
+
+  it('should keep the flat token diff when lineAware is disabled', () => {
+    const left = tokenize('value;\nfirst();');
+    const right = tokenize('first();\nvalue;');
+    const mutation = createMutation(left, right, { lineAware: false });
+
+    expect(mutation.lines).toEqual([]);
+    expect(mutation.diffs.length).toBeGreaterThan(0);
+  });
+
+  it('should pair same text tokens regardless of their types', () => {
+    const left = tokenize('SELECT id, name FROM users').map((token) => ({
+      ...token,
+      types: ['keyword'],
+    }));
+    const right = tokenize('users.map(({ id, name }) => id)');
+    const { diffs } = createMutation(left, right, { lineAware: false });
+
+    expect(getPairs(diffs, left, right)).toEqual(
+      expect.arrayContaining([
+        ['id', 'id'],
+        ['name', 'name'],
+      ]),
+    );
+  });
+
+  it('should detect moved blocks', () => {
+    const block = 'function helper() {\n  return compute(1, 2);\n}\n';
+    const left = tokenize(`${block}const a = 1;\nconst b = 2;\n`);
+    const right = tokenize(`const a = 1;\nconst b = 2;\n${block}`);
+    const { diffs } = createMutation(left, right);
+
+    const moved = diffs.filter((diff) => diff.moved);
+    expect(moved.length).toBeGreaterThan(0);
+    expect(getPairs(moved, left, right)).toContainEqual(['helper', 'helper']);
+    expect(getPairs(moved, left, right)).toContainEqual(['compute', 'compute']);
+    expect(diffs.some((diff) => diff.rightIndex == null)).toBe(false);
+  });
+
+  it('should ignore short moved runs', () => {
+    const left = tokenize('a;\nb = 1;\nc;');
+    const right = tokenize('c;\nb = 1;\na;');
+    const { diffs } = createMutation(left, right);
+
+    expect(diffs.some((diff) => diff.moved)).toBe(false);
+  });
+
+  it('should keep deletions and additions when detectMoves is disabled', () => {
+    const block = 'function helper() {\n  return compute(1, 2);\n}\n';
+    const left = tokenize(`${block}const a = 1;\n`);
+    const right = tokenize(`const a = 1;\n${block}`);
+    const { diffs } = createMutation(left, right, { detectMoves: false });
+
+    expect(diffs.some((diff) => diff.moved)).toBe(false);
+  });
+
+  it('should align with the selected diff strategy', () => {
+    const left = tokenize('a;\nb;\nc;\nd;');
+    const right = tokenize('a;\nc;\nb;\nd;');
+
+    for (const strategyId of ['myers', 'patience', 'histogram', 'character']) {
+      const { diffs } = createMutation(left, right, { strategyId });
+      const pairs = getPairs(diffs, left, right);
+
+      expect(pairs).toContainEqual(['a', 'a']);
+      expect(pairs).toContainEqual(['d', 'd']);
+    }
+  });
+
+  it('should map text ranges to token index ranges', () => {
+    const tokens = tokenize('foo(bar, baz)');
+
+    expect(getTokenIndexRange(tokens, { start: 4, end: 7 })).toEqual([2, 3]);
+    expect(getTokenIndexRange(tokens, { start: 5, end: 12 })).toEqual([2, 5]);
+    expect(getTokenIndexRange(tokens, { start: 50, end: 60 })).toEqual([0, 0]);
+  });
+
+  it('should apply manual pairing hints', () => {
+    const leftCode = 'const userName = 1;\nlog(userName);';
+    const rightCode = 'const username = 1;\nlog(username);';
+    const left = tokenize(leftCode);
+    const right = tokenize(rightCode);
+    const start = leftCode.indexOf('userName');
+
+    const { diffs } = createMutation(left, right, {
+      pairingHints: [
+        {
+          left: { start, end: start + 8 },
+          right: { start, end: start + 8 },
+        },
+      ],
+    });
+    const pairs = getPairs(diffs, left, right);
+
+    expect(pairs).toContainEqual(['userName', 'username']);
+    expect(
+      diffs.filter(
+        ({ leftIndex }) =>
+          leftIndex != null && left[leftIndex].value === 'userName',
+      ),
+    ).toHaveLength(2);
+  });
+
+  it('should release the previous partners of hinted tokens', () => {
+    const left = tokenize('a b');
+    const right = tokenize('b a');
+    // force the left `a` to become the right `b`
+    const { diffs } = createMutation(left, right, {
+      pairingHints: [
+        { left: { start: 0, end: 1 }, right: { start: 0, end: 1 } },
+      ],
+    });
+
+    const leftIndexes = diffs
+      .map((diff) => diff.leftIndex)
+      .filter((i) => i != null);
+    const rightIndexes = diffs
+      .map((diff) => diff.rightIndex)
+      .filter((i) => i != null);
+
+    expect(getPairs(diffs, left, right)).toContainEqual(['a', 'b']);
+    expect(new Set(leftIndexes).size).toBe(leftIndexes.length);
+    expect(new Set(rightIndexes).size).toBe(rightIndexes.length);
+    expect(rightIndexes).toHaveLength(right.length);
+  });
+
+  it('should keep the diff order around a hint in the middle of the code', () => {
+    const leftCode = 'foo(a, b);\nbar(c);';
+    const rightCode = 'foo(x, b);\nbar(c);';
+    const left = tokenize(leftCode);
+    const right = tokenize(rightCode);
+    const start = leftCode.indexOf('a');
+
+    const { diffs } = createMutation(left, right, {
+      detectMorphs: false,
+      pairingHints: [
+        { left: { start, end: start + 1 }, right: { start, end: start + 1 } },
+      ],
+    });
+
+    expect(diffs.map(({ leftIndex }) => leftIndex)).toEqual(
+      left.map((_, index) => index),
+    );
+    expect(diffs.map(({ rightIndex }) => rightIndex)).toEqual(
+      right.map((_, index) => index),
+    );
+  });
+
+  it('should morph renamed identifiers', () => {
+    const left = tokenize('log(userName);');
+    const right = tokenize('log(username);');
+    const { diffs } = createMutation(left, right);
+
+    const morphDiff = diffs.find((diff) => diff.morph);
+    expect(morphDiff).toBeDefined();
+    expect(left[morphDiff!.leftIndex!].value).toBe('userName');
+    expect(right[morphDiff!.rightIndex!].value).toBe('username');
+    expect(morphDiff!.morph).toEqual([
+      { text: 'user', leftOffset: 0, rightOffset: 0 },
+      { text: 'N', leftOffset: 4, rightOffset: null },
+      { text: 'n', leftOffset: null, rightOffset: 4 },
+      { text: 'ame', leftOffset: 5, rightOffset: 5 },
+    ]);
+  });
+
+  it('should not morph dissimilar tokens or tokens of other types', () => {
+    const left: Token[] = [{ value: 'value', types: ['variable'] }];
+    const right: Token[] = [{ value: 'values', types: ['keyword'] }];
+
+    expect(createMutation(left, right).diffs.some((diff) => diff.morph)).toBe(
+      false,
+    );
+    expect(
+      createMutation(tokenize('foo(a);'), tokenize('foo(xyz);')).diffs.some(
+        (diff) => diff.morph,
+      ),
+    ).toBe(false);
+  });
+});
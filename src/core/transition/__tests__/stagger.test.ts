@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { createMutation } from '../mutation';
+import {
+  getStaggerOrders,
+  MAX_STAGGER_AMOUNT,
+  StaggerMode,
+  staggerProgress,
+} from '../stagger';
+import {
+  computeTransitionState,
+  DEFAULT_TRANSITION_CONFIG,
+} from '../transition';
+import { tokenize } from '../../../test-utils';
+
+function getAddedOrders(left: string, right: string, mode: StaggerMode) {
+  const mutation = createMutation(tokenize(left), tokenize(right));
+  const orders = getStaggerOrders(mutation, mode, 1);
+
+  return mutation.diffs.flatMap(({ leftIndex, rightIndex }, index) =>
+    leftIndex == null
+      ? [{ value: mutation.right[rightIndex!].value, order: orders[index] }]
+      : [],
+  );
+}
+
+describe('getStaggerOrders', () => {
+  it('should start every token at once without staggering', () => {
+    const mutation = createMutation(tokenize('a'), tokenize('a\nb\nc'));
+
+    expect(getStaggerOrders(mutation, StaggerMode.NONE)).toEqual(
+      mutation.diffs.map(() => 0),
+    );
+  });
+
+  it('should order the added tokens by line', () => {
+    const added = getAddedOrders('a', 'a\nb\nc\nd', StaggerMode.LINE);
+    const orderOf = (value: string) =>
+      added.find((token) => token.value === value)!.order;
+
+    expect(orderOf('b')).toBeLessThan(orderOf('c'));
+    expect(orderOf('c')).toBeLessThan(orderOf('d'));
+    expect(orderOf('d')).toBe(1);
+  });
+
+  it('should order the added tokens by column', () => {
+    const added = getAddedOrders('', 'ab cd ef', StaggerMode.COLUMN);
+    const orderOf = (value: string) =>
+      added.find((token) => token.value === value)!.order;
+
+    expect(orderOf('ab')).toBe(0);
+    expect(orderOf('ef')).toBe(1);
+  });
+
+  it('should order the moved tokens by the distance from the edit', () => {
+    const left = tokenize('a\nb\nc\nd');
+    const right = tokenize('a\nb\nc\nd\nadded');
+    const mutation = createMutation(left, right);
+    const orders = getStaggerOrders(mutation, StaggerMode.DISTANCE);
+    const orderOf = (value: string) =>
+      orders[
+        mutation.diffs.findIndex(
+          ({ leftIndex }) =>
+            leftIndex != null && left[leftIndex].value === value,
+        )
+      ];
+
+    expect(orderOf('d')).toBeLessThan(orderOf('b'));
+    expect(orderOf('a')).toBe(1);
+  });
+
+  it('should repeat random orders with the same seed', () => {
+    const mutation = createMutation(tokenize('a'), tokenize('a b c d e f'));
+    const orders = getStaggerOrders(mutation, StaggerMode.RANDOM, 3);
+
+    expect(getStaggerOrders(mutation, StaggerMode.RANDOM, 3)).toEqual(orders);
+    expect(getStaggerOrders(mutation, StaggerMode.RANDOM, 4)).not.toEqual(
+      orders,
+    );
+    orders.forEach((order) => {
+      expect(order).toBeGreaterThanOrEqual(0);
+      expect(order).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe('staggerProgress', () => {
+  it('should finish the last token with the phase', () => {
+    expect(staggerProgress(1, 1, 0.5)).toBe(1);
+    expect(staggerProgress(0.5, 1, 0.5)).toBe(0);
+    expect(staggerProgress(0.5, 0, 0.5)).toBe(1);
+  });
+
+  it('should never spend the whole phase on delays', () => {
+    expect(staggerProgress(1, 1, 1)).toBe(1);
+    expect(staggerProgress(MAX_STAGGER_AMOUNT, 1, 1)).toBe(0);
+  });
+});
+
+describe('computeTransitionState with stagger', () => {
+  const config = {
+    ...DEFAULT_TRANSITION_CONFIG,
+    staggerMode: StaggerMode.LINE,
+    staggerAmount: 0.5,
+  };
+
+  it('should delay later tokens', () => {
+    const first = computeTransitionState(0.8, config, 0);
+    const last = computeTransitionState(0.8, config, 1);
+
+    expect(first.inProgress).toBeGreaterThan(last.inProgress);
+  });
+
+  it('should finish every token at the end of the transition', () => {
+    const state = computeTransitionState(1, config, 1);
+
+    expect(state.inProgress).toBe(1);
+    expect(state.outProgress).toBe(1);
+    expect(state.moveProgress).toBe(1);
+  });
+
+  it('should ignore the order without a stagger mode', () => {
+    expect(computeTransitionState(0.8, DEFAULT_TRANSITION_CONFIG, 1)).toEqual(
+      computeTransitionState(0.8, DEFAULT_TRANSITION_CONFIG, 0),
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { javascript } from '@codemirror/lang-javascript';
+import { matchSyntaxNodes } from '../structural';
+import { createMutation } from '../mutation';
+import { getPairs, tokenize } from '../../../test-utils';
+
+const parser = javascript().language.parser;
+
+describe('matchSyntaxNodes', () => {
+  const body = 'const total = items.reduce((sum, item) => sum + item, 0);';
+
+  it('should match the largest identical syntax nodes', () => {
+    const leftCode = `function sum(items) {\n  ${body}\n  return total;\n}`;
+    const rightCode = `if (enabled) {\n  function sum(items) {\n    ${body}\n    return total;\n  }\n}`;
+
+    const hints = matchSyntaxNodes(leftCode, rightCode, parser);
+
+    expect(hints).toHaveLength(1);
+    expect(leftCode.slice(hints[0].left.start, hints[0].left.end)).toBe(
+      leftCode,
+    );
+    expect(rightCode.slice(hints[0].right.start, hints[0].right.end)).toContain(
+      'function sum(items)',
+    );
+  });
+
+  it('should ignore small nodes', () => {
+    expect(matchSyntaxNodes('a(b);', 'a(b);', parser)).toEqual([]);
+  });
+
+  it('should keep a moved function together in the mutation', () => {
+    const fn = `function compute(items) {\n  ${body}\n  return total;\n}\n`;
+    const leftCode = `${fn}const value = 1;\nconsole.log(value);\n`;
+    const rightCode = `const value = 1;\nconsole.log(value);\n${fn}`;
+    const left = tokenize(leftCode);
+    const right = tokenize(rightCode);
+
+    const { diffs } = createMutation(left, right, {
+      syntaxParser: parser,
+      detectMoves: false,
+    });
+    const pairs = getPairs(diffs, left, right);
+
+    expect(pairs).toContainEqual(['compute', 'compute']);
+    expect(pairs).toContainEqual(['reduce', 'reduce']);
+  });
+});
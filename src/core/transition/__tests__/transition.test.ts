@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeTransitionState,
+  DEFAULT_TRANSITION_CONFIG,
+  getTypesTransitionConfig,
+  TransitionEffectType,
+  type TransitionConfig,
+} from '../transition';
+
+describe('getTypesTransitionConfig', () => {
+  const config: TransitionConfig = {
+    ...DEFAULT_TRANSITION_CONFIG,
+    typeStyles: {
+      comment: { effectType: TransitionEffectType.FADE },
+      keyword: {
+        effectType: TransitionEffectType.SLIDE_LEFT,
+        slideDistance: 80,
+      },
+      string: { effectType: TransitionEffectType.SCALE },
+    },
+  };
+
+  it('should return the same config without type styles', () => {
+    expect(
+      getTypesTransitionConfig(DEFAULT_TRANSITION_CONFIG, ['keyword']),
+    ).toBe(DEFAULT_TRANSITION_CONFIG);
+  });
+
+  it('should return the same config when no type has a style', () => {
+    expect(getTypesTransitionConfig(config, ['punctuation'])).toBe(config);
+    expect(getTypesTransitionConfig(config, [])).toBe(config);
+  });
+
+  it('should apply the style of the token type', () => {
+    const resolved = getTypesTransitionConfig(config, ['keyword']);
+
+    expect(resolved.effectType).toBe(TransitionEffectType.SLIDE_LEFT);
+    expect(resolved.slideDistance).toBe(80);
+    expect(resolved.easingId).toBe(DEFAULT_TRANSITION_CONFIG.easingId);
+  });
+
+  it('should let the styles of later types win', () => {
+    expect(
+      getTypesTransitionConfig(config, ['string', 'comment']).effectType,
+    ).toBe(TransitionEffectType.FADE);
+    expect(
+      getTypesTransitionConfig(config, ['comment', 'string']).effectType,
+    ).toBe(TransitionEffectType.SCALE);
+  });
+
+  it('should change the timing of the token', () => {
+    const resolved = getTypesTransitionConfig(
+      {
+        ...DEFAULT_TRANSITION_CONFIG,
+        typeStyles: { comment: { inDurationProportion: 1 } },
+      },
+      ['comment'],
+    );
+
+    expect(computeTransitionState(0.25, resolved).inProgress).toBeGreaterThan(
+      0,
+    );
+    expect(
+      computeTransitionState(0.25, DEFAULT_TRANSITION_CONFIG).inProgress,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { createMutation } from '../mutation';
+import {
+  countInsertedCharacters,
+  getInsertedRuns,
+  getTypewriterTransitionTime,
+  layoutTypewriter,
+  MIN_TYPEWRITER_TRANSITION_TIME,
+} from '../typewriter';
+import { measureTextWidth, tokenize } from '../../../test-utils';
+
+const LINE_HEIGHT = 20;
+
+describe('getInsertedRuns', () => {
+  it('should list the inserted characters in reading order', () => {
+    const mutation = createMutation(
+      tokenize('foo(a);'),
+      tokenize('bar();\nfoo(a, b);'),
+    );
+    const runs = getInsertedRuns(mutation);
+
+    expect(runs.map((run) => run.text).join('')).toBe('bar();\n, b');
+    expect(countInsertedCharacters(mutation)).toBe(10);
+  });
+
+  it('should only take the added characters of morphed tokens', () => {
+    const mutation = createMutation(
+      tokenize('const count = 1;'),
+      tokenize('const counter = 1;'),
+    );
+
+    expect(getInsertedRuns(mutation)).toEqual([
+      { rightIndex: 2, offset: 5, text: 'er' },
+    ]);
+  });
+});
+
+describe('getTypewriterTransitionTime', () => {
+  it('should type the inserted characters at the typing speed', () => {
+    const mutation = createMutation(tokenize('a'), tokenize('a + bcdefghij'));
+
+    expect(getTypewriterTransitionTime(mutation, 12)).toBe(1000);
+    expect(getTypewriterTransitionTime(mutation, 24)).toBe(500);
+  });
+
+  it('should keep a minimal time when nothing is inserted', () => {
+    const mutation = createMutation(tokenize('a + b'), tokenize('a'));
+
+    expect(getTypewriterTransitionTime(mutation, 30)).toBe(
+      MIN_TYPEWRITER_TRANSITION_TIME,
+    );
+  });
+});
+
+describe('layoutTypewriter', () => {
+  const left = tokenize('foo(a);');
+  const right = tokenize('foo(a, b);\nbar();');
+  const mutation = createMutation(left, right);
+  const runs = getInsertedRuns(mutation);
+  const closingIndex = right.findIndex((token) => token.value.startsWith(');'));
+
+  it('should lay out the kept tokens tightly before typing', () => {
+    const {
+      tokenPositions,
+      runs: typedRuns,
+      caret,
+    } = layoutTypewriter(right, runs, 0, measureTextWidth, LINE_HEIGHT);
+
+    expect(tokenPositions[closingIndex]).toEqual({ x: 50, y: 0 });
+    expect(typedRuns.every((run) => run.typedText === '')).toBe(true);
+    expect(caret).toEqual({ x: 50, y: 0 });
+  });
+
+  it('should push the following tokens along while typing', () => {
+    const { tokenPositions, caret } = layoutTypewriter(
+      right,
+      runs,
+      2,
+      measureTextWidth,
+      LINE_HEIGHT,
+    );
+
+    expect(tokenPositions[closingIndex]).toEqual({ x: 70, y: 0 });
+    expect(caret).toEqual({ x: 70, y: 0 });
+  });
+
+  it('should end at the layout of the target code', () => {
+    const { tokenPositions, caret } = layoutTypewriter(
+      right,
+      runs,
+      countInsertedCharacters(mutation),
+      measureTextWidth,
+      LINE_HEIGHT,
+    );
+
+    expect(tokenPositions[closingIndex]).toEqual({ x: 80, y: 0 });
+    expect(caret).toEqual({ x: 60, y: LINE_HEIGHT });
+  });
+
+  it('should have no caret when nothing is inserted', () => {
+    const tokens = tokenize('a');
+
+    expect(
+      layoutTypewriter(tokens, [], 0, measureTextWidth, LINE_HEIGHT).caret,
+    ).toBeNull();
+  });
+});
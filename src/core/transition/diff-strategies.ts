@@ -0,0 +1,506 @@
+import { diffArrays, diffChars } from 'diff';
+
+/**
+ * Matched items of two sequences, as `[leftIndex, rightIndex]` pairs.
+ * Both indexes must be strictly increasing.
+ */
+export type SequenceMatches = [leftIndex: number, rightIndex: number][];
+
+/**
+ * Align two sequences, items are considered equal when their keys are equal
+ */
+export type DiffAlgorithm = (
+  leftKeys: string[],
+  rightKeys: string[],
+) => SequenceMatches;
+
+export interface DiffStrategy {
+  id: string;
+  name: string;
+  func: DiffAlgorithm;
+  description: string;
+}
+
+/**
+ * Items occurring more often than this are not used as histogram anchors
+ */
+const MAX_HISTOGRAM_CHAIN = 64;
+
+function myersDiff(leftKeys: string[], rightKeys: string[]): SequenceMatches {
+  const matches: SequenceMatches = [];
+  let leftIndex = 0;
+  let rightIndex = 0;
+
+  for (const group of diffArrays(leftKeys, rightKeys)) {
+    const count = group.count ?? 0;
+    if (group.added) {
+      rightIndex += count;
+    } else if (group.removed) {
+      leftIndex += count;
+    } else {
+      for (let i = 0; i < count; i++) {
+        matches.push([leftIndex + i, rightIndex + i]);
+      }
+      leftIndex += count;
+      rightIndex += count;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Run `diff` on the given ranges with common prefix and suffix trimmed,
+ * the produced matches are pushed into `matches`
+ */
+function diffRange(
+  leftKeys: string[],
+  rightKeys: string[],
+  leftStart: number,
+  leftEnd: number,
+  rightStart: number,
+  rightEnd: number,
+  matches: SequenceMatches,
+  diff: (
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number,
+  ) => void,
+) {
+  while (
+    leftStart < leftEnd &&
+    rightStart < rightEnd &&
+    leftKeys[leftStart] === rightKeys[rightStart]
+  ) {
+    matches.push([leftStart++, rightStart++]);
+  }
+
+  const suffix: SequenceMatches = [];
+  while (
+    leftStart < leftEnd &&
+    rightStart < rightEnd &&
+    leftKeys[leftEnd - 1] === rightKeys[rightEnd - 1]
+  ) {
+    suffix.unshift([--leftEnd, --rightEnd]);
+  }
+
+  if (leftStart < leftEnd && rightStart < rightEnd) {
+    diff(leftStart, leftEnd, rightStart, rightEnd);
+  }
+
+  matches.push(...suffix);
+}
+
+function myersDiffRange(
+  leftKeys: string[],
+  rightKeys: string[],
+  leftStart: number,
+  leftEnd: number,
+  rightStart: number,
+  rightEnd: number,
+  matches: SequenceMatches,
+) {
+  const rangeMatches = myersDiff(
+    leftKeys.slice(leftStart, leftEnd),
+    rightKeys.slice(rightStart, rightEnd),
+  );
+  for (const [leftIndex, rightIndex] of rangeMatches) {
+    matches.push([leftStart + leftIndex, rightStart + rightIndex]);
+  }
+}
+
+/**
+ * Longest increasing subsequence of `[leftIndex, rightIndex]` pairs sorted by
+ * leftIndex, compared by rightIndex
+ */
+function longestIncreasingPairs(pairs: SequenceMatches): SequenceMatches {
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  pairs.forEach(([, rightIndex], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (pairs[tails[mid]][1] < rightIndex) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const result: SequenceMatches = [];
+  for (
+    let index = tails[tails.length - 1] ?? -1;
+    index !== -1;
+    index = previous[index]
+  ) {
+    result.unshift(pairs[index]);
+  }
+
+  return result;
+}
+
+/**
+ * Patience diff, anchors the alignment on the items that are unique on both
+ * sides, then recurses between the anchors
+ */
+function patienceDiff(
+  leftKeys: string[],
+  rightKeys: string[],
+): SequenceMatches {
+  const matches: SequenceMatches = [];
+
+  const diff = (
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number,
+  ) => {
+    const occurrences = new Map<
+      string,
+      {
+        leftCount: number;
+        leftIndex: number;
+        rightCount: number;
+        rightIndex: number;
+      }
+    >();
+
+    for (let i = leftStart; i < leftEnd; i++) {
+      const entry = occurrences.get(leftKeys[i]) ?? {
+        leftCount: 0,
+        leftIndex: i,
+        rightCount: 0,
+        rightIndex: -1,
+      };
+      entry.leftCount++;
+      occurrences.set(leftKeys[i], entry);
+    }
+    for (let i = rightStart; i < rightEnd; i++) {
+      const entry = occurrences.get(rightKeys[i]);
+      if (!entry) continue;
+      entry.rightCount++;
+      entry.rightIndex = i;
+    }
+
+    const uniquePairs: SequenceMatches = [];
+    for (const entry of occurrences.values()) {
+      if (entry.leftCount === 1 && entry.rightCount === 1) {
+        uniquePairs.push([entry.leftIndex, entry.rightIndex]);
+      }
+    }
+
+    if (uniquePairs.length === 0) {
+      myersDiffRange(
+        leftKeys,
+        rightKeys,
+        leftStart,
+        leftEnd,
+        rightStart,
+        rightEnd,
+        matches,
+      );
+      return;
+    }
+
+    uniquePairs.sort((a, b) => a[0] - b[0]);
+
+    let lastLeft = leftStart;
+    let lastRight = rightStart;
+    for (const [leftIndex, rightIndex] of longestIncreasingPairs(uniquePairs)) {
+      diffRange(
+        leftKeys,
+        rightKeys,
+        lastLeft,
+        leftIndex,
+        lastRight,
+        rightIndex,
+        matches,
+        diff,
+      );
+      matches.push([leftIndex, rightIndex]);
+      lastLeft = leftIndex + 1;
+      lastRight = rightIndex + 1;
+    }
+    diffRange(
+      leftKeys,
+      rightKeys,
+      lastLeft,
+      leftEnd,
+      lastRight,
+      rightEnd,
+      matches,
+      diff,
+    );
+  };
+
+  diffRange(
+    leftKeys,
+    rightKeys,
+    0,
+    leftKeys.length,
+    0,
+    rightKeys.length,
+    matches,
+    diff,
+  );
+
+  return matches;
+}
+
+/**
+ * Histogram diff as implemented by git, it prefers the common region whose
+ * items occur the least on the left side, then recurses around it
+ */
+function histogramDiff(
+  leftKeys: string[],
+  rightKeys: string[],
+): SequenceMatches {
+  const matches: SequenceMatches = [];
+
+  const diff = (
+    leftStart: number,
+    leftEnd: number,
+    rightStart: number,
+    rightEnd: number,
+  ) => {
+    const leftIndexes = new Map<string, number[]>();
+    for (let i = leftStart; i < leftEnd; i++) {
+      const indexes = leftIndexes.get(leftKeys[i]) ?? [];
+      indexes.push(i);
+      leftIndexes.set(leftKeys[i], indexes);
+    }
+
+    let best: {
+      leftIndex: number;
+      rightIndex: number;
+      count: number;
+      occurrences: number;
+    } | null = null;
+
+    for (let rightIndex = rightStart; rightIndex < rightEnd; ) {
+      const candidates = leftIndexes.get(rightKeys[rightIndex]);
+      let nextRightIndex = rightIndex + 1;
+
+      if (!candidates || candidates.length > MAX_HISTOGRAM_CHAIN) {
+        rightIndex = nextRightIndex;
+        continue;
+      }
+
+      for (const leftIndex of candidates) {
+        let start = 0;
+        while (
+          leftIndex - start - 1 >= leftStart &&
+          rightIndex - start - 1 >= rightStart &&
+          leftKeys[leftIndex - start - 1] === rightKeys[rightIndex - start - 1]
+        ) {
+          start++;
+        }
+
+        let count = start + 1;
+        let occurrences = candidates.length;
+        while (
+          leftIndex - start + count < leftEnd &&
+          rightIndex - start + count < rightEnd &&
+          leftKeys[leftIndex - start + count] ===
+            rightKeys[rightIndex - start + count]
+        ) {
+          occurrences = Math.min(
+            occurrences,
+            leftIndexes.get(leftKeys[leftIndex - start + count])?.length ??
+              Infinity,
+          );
+          count++;
+        }
+
+        nextRightIndex = Math.max(nextRightIndex, rightIndex - start + count);
+
+        if (
+          !best ||
+          occurrences < best.occurrences ||
+          (occurrences === best.occurrences && count > best.count)
+        ) {
+          best = {
+            leftIndex: leftIndex - start,
+            rightIndex: rightIndex - start,
+            count,
+            occurrences,
+          };
+        }
+      }
+
+      rightIndex = nextRightIndex;
+    }
+
+    if (!best) {
+      // No usable anchor in the range
+      myersDiffRange(
+        leftKeys,
+        rightKeys,
+        leftStart,
+        leftEnd,
+        rightStart,
+        rightEnd,
+        matches,
+      );
+      return;
+    }
+
+    diffRange(
+      leftKeys,
+      rightKeys,
+      leftStart,
+      best.leftIndex,
+      rightStart,
+      best.rightIndex,
+      matches,
+      diff,
+    );
+    for (let i = 0; i < best.count; i++) {
+      matches.push([best.leftIndex + i, best.rightIndex + i]);
+    }
+    diffRange(
+      leftKeys,
+      rightKeys,
+      best.leftIndex + best.count,
+      leftEnd,
+      best.rightIndex + best.count,
+      rightEnd,
+      matches,
+      diff,
+    );
+  };
+
+  diffRange(
+    leftKeys,
+    rightKeys,
+    0,
+    leftKeys.length,
+    0,
+    rightKeys.length,
+    matches,
+    diff,
+  );
+
+  return matches;
+}
+
+/**
+ * Character-level diff, the items are aligned by their characters so the
+ * alignment does not depend on where the tokenizer splits.
+ * An item is matched when all of its characters are kept in one equal item.
+ */
+function characterDiff(
+  leftKeys: string[],
+  rightKeys: string[],
+): SequenceMatches {
+  const getOwners = (keys: string[]) =>
+    keys.flatMap((key, index) => Array<number>(key.length).fill(index));
+
+  const leftOwners = getOwners(leftKeys);
+  const rightOwners = getOwners(rightKeys);
+
+  // leftIndex -> [rightIndex, kept characters count]
+  const candidates = new Map<number, [number, number]>();
+  const brokenLeft = new Set<number>();
+
+  let leftChar = 0;
+  let rightChar = 0;
+  for (const change of diffChars(leftKeys.join(''), rightKeys.join(''))) {
+    const count = change.value.length;
+    if (change.added) {
+      rightChar += count;
+      continue;
+    }
+    if (change.removed) {
+      for (let i = 0; i < count; i++) brokenLeft.add(leftOwners[leftChar + i]);
+      leftChar += count;
+      continue;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const leftIndex = leftOwners[leftChar + i];
+      const rightIndex = rightOwners[rightChar + i];
+      const candidate = candidates.get(leftIndex);
+      if (!candidate) {
+        candidates.set(leftIndex, [rightIndex, 1]);
+      } else if (candidate[0] === rightIndex) {
+        candidate[1]++;
+      } else {
+        brokenLeft.add(leftIndex);
+      }
+    }
+    leftChar += count;
+    rightChar += count;
+  }
+
+  const matches: SequenceMatches = [];
+  for (const [leftIndex, [rightIndex, kept]] of candidates) {
+    if (
+      !brokenLeft.has(leftIndex) &&
+      kept === leftKeys[leftIndex].length &&
+      leftKeys[leftIndex] === rightKeys[rightIndex] &&
+      rightIndex > (matches[matches.length - 1]?.[1] ?? -1)
+    ) {
+      matches.push([leftIndex, rightIndex]);
+    }
+  }
+
+  return matches;
+}
+
+export const DEFAULT_DIFF_STRATEGY = 'myers';
+
+export const DIFF_STRATEGIES: DiffStrategy[] = [
+  {
+    id: 'myers',
+    name: 'Myers',
+    func: myersDiff,
+    description: 'Minimal edit script, the classic diff',
+  },
+  {
+    id: 'patience',
+    name: 'Patience',
+    func: patienceDiff,
+    description: 'Anchors on unique lines, keeps blocks together',
+  },
+  {
+    id: 'histogram',
+    name: 'Histogram',
+    func: histogramDiff,
+    description: 'Prefers rare content, good for reordered code',
+  },
+  {
+    id: 'character',
+    name: 'Character',
+    func: characterDiff,
+    description: 'Aligns characters, robust to tokenization changes',
+  },
+];
+
+/**
+ * Register a custom diff strategy, replacing the one with the same ID
+ */
+export function registerDiffStrategy(strategy: DiffStrategy) {
+  const index = DIFF_STRATEGIES.findIndex((s) => s.id === strategy.id);
+  if (index === -1) {
+    DIFF_STRATEGIES.push(strategy);
+  } else {
+    DIFF_STRATEGIES[index] = strategy;
+  }
+}
+
+/**
+ * Get diff strategy by ID, fall back to Myers when not found
+ */
+export function getDiffStrategy(id: string = DEFAULT_DIFF_STRATEGY) {
+  return (
+    DIFF_STRATEGIES.find((s) => s.id === id) ??
+    DIFF_STRATEGIES.find((s) => s.id === DEFAULT_DIFF_STRATEGY)!
+  );
+}
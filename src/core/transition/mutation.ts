@@ -1,5 +1,8 @@
-import { diffArrays } from 'diff';
 import { isTokenSpaces, type Token } from '../tokenize/index';
+import { diffChars } from 'diff';
+import { getEditDistance, getLinesCount } from '../../utils/string';
+import { type DiffAlgorithm, getDiffStrategy } from './diff-strategies';
+import { type SyntaxParser, matchSyntaxNodes } from './structural';
 
 export interface TokenDiff {
   /**
@@ -12,53 +15,735 @@ export interface TokenDiff {
    * Be `null` when the token is deleted
    */
   rightIndex: number | null;
+  /**
+   * Whether the token was relocated as part of a moved block,
+   * instead of being kept in place by the diff
+   */
+  moved?: boolean;
+  /**
+   * Present when the token is morphed into a similar token,
+   * e.g. a renamed identifier, describes how its characters change
+   */
+  morph?: MorphSegment[];
+}
+
+/**
+ * A run of characters of a morphed token
+ */
+export interface MorphSegment {
+  text: string;
+  /**
+   * Character offset in the `from` token
+   * Be `null` when the characters are added
+   */
+  leftOffset: number | null;
+  /**
+   * Character offset in the `to` token
+   * Be `null` when the characters are deleted
+   */
+  rightOffset: number | null;
+}
+
+export type LineDiffKind = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface LineDiff {
+  kind: LineDiffKind;
+  /**
+   * Line number (0 based) in the `from` code
+   * Be `null` when the line is added
+   */
+  leftLine: number | null;
+  /**
+   * Line number (0 based) in the `to` code
+   * Be `null` when the line is removed
+   */
+  rightLine: number | null;
 }
+
 export interface MovMutation {
   left: Token[];
   right: Token[];
   diffs: TokenDiff[];
+  /**
+   * How the lines of both sides are paired
+   * Empty when the mutation is created without `lineAware`
+   */
+  lines: LineDiff[];
 }
 
-export function createMutation(left: Token[], right: Token[]): MovMutation {
-  const diffResult = diffArrays(left, right, {
-    comparator: (left, right) => {
-      if (isTokenSpaces(left) && isTokenSpaces(right)) {
-        return true;
-      }
+/**
+ * Character offsets range `[start, end)` in the code of a snapshot
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
 
-      return left.value === right.value;
-    },
-  });
+/**
+ * Force the tokens of the `left` range to become the tokens of the `right`
+ * range, overriding whatever the diff decided for them
+ */
+export interface TokenPairingHint {
+  left: TextRange;
+  right: TextRange;
+}
+
+export interface MutationOptions {
+  /**
+   * Align lines first and only diff tokens inside paired lines,
+   * so a token can never travel to an unrelated line.
+   * Default to `true`
+   */
+  lineAware?: boolean;
+  /**
+   * Pair deleted and added runs of identical tokens, so relocated code
+   * slides to its new place instead of fading out and in again.
+   * Default to `true`
+   */
+  detectMoves?: boolean;
+  /**
+   * Morph deleted tokens into similar added tokens of the same types,
+   * so renames keep their shared characters in place.
+   * Default to `true`
+   */
+  detectMorphs?: boolean;
+  /**
+   * ID of the diff strategy used to align lines and tokens,
+   * see `DIFF_STRATEGIES`
+   */
+  strategyId?: string;
+  /**
+   * Parser of the code language, enables the structural diff:
+   * matched syntax nodes are paired before the tokens
+   */
+  syntaxParser?: SyntaxParser;
+  /**
+   * Manual pairings applied on top of the computed diffs
+   */
+  pairingHints?: TokenPairingHint[];
+}
+
+/**
+ * Modified lines sharing less tokens than this ratio are treated as a
+ * removed line plus an added line
+ */
+const MODIFIED_LINE_SIMILARITY = 0.3;
+
+/**
+ * Minimal count of non-space characters of a moved block,
+ * shorter runs are too common to be considered as moved
+ */
+const MIN_MOVED_BLOCK_CHARS = 20;
+
+/**
+ * Minimal similarity (1 - edit distance / longer length) of morphed tokens
+ */
+const MIN_MORPH_SIMILARITY = 0.5;
+
+interface TokenLine {
+  /** Line number of the first token */
+  line: number;
+  /** Index of the first token in the token list */
+  start: number;
+  tokens: Token[];
+  key: string;
+}
+
+function isSameToken(left: Token, right: Token) {
+  if (isTokenSpaces(left) && isTokenSpaces(right)) {
+    return true;
+  }
+
+  return left.value === right.value;
+}
+
+function getTokensCode(tokens: Token[]) {
+  return tokens.map((token) => token.value).join('');
+}
+
+function getTokenKey(token: Token) {
+  return isTokenSpaces(token) ? ' ' : token.value;
+}
+
+/**
+ * Diff two token lists, the produced indexes are shifted by the offsets
+ */
+function diffTokens(
+  left: Token[],
+  right: Token[],
+  algorithm: DiffAlgorithm,
+  leftOffset = 0,
+  rightOffset = 0,
+): TokenDiff[] {
+  const matches = algorithm(left.map(getTokenKey), right.map(getTokenKey));
 
   const diffs: TokenDiff[] = [];
 
   let leftIndex = 0;
   let rightIndex = 0;
 
-  for (const group of diffResult) {
-    const count = group.count ?? 0;
-    const existedInLeft = !group.added;
-    const existedInRight = !group.removed;
+  for (const [matchedLeft, matchedRight] of [
+    ...matches,
+    [left.length, right.length],
+  ]) {
+    for (; leftIndex < matchedLeft; leftIndex++) {
+      diffs.push({ leftIndex: leftOffset + leftIndex, rightIndex: null });
+    }
+    for (; rightIndex < matchedRight; rightIndex++) {
+      diffs.push({ leftIndex: null, rightIndex: rightOffset + rightIndex });
+    }
+    if (matchedLeft < left.length) {
+      diffs.push({
+        leftIndex: leftOffset + leftIndex++,
+        rightIndex: rightOffset + rightIndex++,
+      });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Group tokens into lines.
+ * A token containing line breaks ends the line it starts on.
+ */
+function splitTokenLines(tokens: Token[]): TokenLine[] {
+  const lines: TokenLine[] = [];
+  let current: TokenLine | null = null;
+  let line = 0;
+
+  tokens.forEach((token, index) => {
+    current ??= { line, start: index, tokens: [], key: '' };
+    current.tokens.push(token);
+
+    const breaksCount = getLinesCount(token.value);
+    if (breaksCount > 0) {
+      lines.push(current);
+      current = null;
+      line += breaksCount;
+    }
+  });
+
+  if (current) {
+    lines.push(current);
+  }
+
+  for (const tokenLine of lines) {
+    tokenLine.key = tokenLine.tokens
+      .map((token) => token.value)
+      .join('')
+      .trim()
+      .replace(/\s+/g, ' ');
+  }
+
+  return lines;
+}
+
+/**
+ * Dice coefficient of the non-space token values of two lines
+ */
+function getLineSimilarity(left: TokenLine, right: TokenLine) {
+  const leftValues = left.tokens
+    .filter((token) => !isTokenSpaces(token))
+    .map((token) => token.value.trim());
+  const rightValues = right.tokens
+    .filter((token) => !isTokenSpaces(token))
+    .map((token) => token.value.trim());
+
+  if (leftValues.length + rightValues.length === 0) return 1;
+
+  const remaining = new Map<string, number>();
+  for (const value of rightValues) {
+    remaining.set(value, (remaining.get(value) ?? 0) + 1);
+  }
+
+  let common = 0;
+  for (const value of leftValues) {
+    const count = remaining.get(value) ?? 0;
+    if (count > 0) {
+      common++;
+      remaining.set(value, count - 1);
+    }
+  }
+
+  return (2 * common) / (leftValues.length + rightValues.length);
+}
 
-    diffs.push(
-      ...group.value.map((token, idx) => ({
-        leftIndex: existedInLeft ? leftIndex + idx : null,
-        rightIndex: existedInRight ? rightIndex + idx : null,
-      })),
+/**
+ * Pair removed and added lines of a change hunk in order,
+ * lines without a similar partner stay removed / added
+ */
+function pairHunkLines(
+  removed: TokenLine[],
+  added: TokenLine[],
+): [left: TokenLine | null, right: TokenLine | null][] {
+  const pairs: [TokenLine | null, TokenLine | null][] = [];
+  let addedIndex = 0;
+
+  for (const leftLine of removed) {
+    const matchIndex = added.findIndex(
+      (rightLine, index) =>
+        index >= addedIndex &&
+        getLineSimilarity(leftLine, rightLine) >= MODIFIED_LINE_SIMILARITY,
     );
 
-    if (existedInLeft) {
-      leftIndex += count;
+    if (matchIndex === -1) {
+      pairs.push([leftLine, null]);
+      continue;
+    }
+
+    for (; addedIndex < matchIndex; addedIndex++) {
+      pairs.push([null, added[addedIndex]]);
+    }
+    pairs.push([leftLine, added[matchIndex]]);
+    addedIndex = matchIndex + 1;
+  }
+
+  for (; addedIndex < added.length; addedIndex++) {
+    pairs.push([null, added[addedIndex]]);
+  }
+
+  return pairs;
+}
+
+function createLineAwareDiffs(
+  left: Token[],
+  right: Token[],
+  algorithm: DiffAlgorithm,
+): Pick<MovMutation, 'diffs' | 'lines'> {
+  const leftLines = splitTokenLines(left);
+  const rightLines = splitTokenLines(right);
+
+  const lineMatches = algorithm(
+    leftLines.map((line) => line.key),
+    rightLines.map((line) => line.key),
+  );
+
+  const diffs: TokenDiff[] = [];
+  const lines: LineDiff[] = [];
+
+  const pushPair = (
+    leftLine: TokenLine | null,
+    rightLine: TokenLine | null,
+    kind: LineDiffKind,
+  ) => {
+    lines.push({
+      kind,
+      leftLine: leftLine?.line ?? null,
+      rightLine: rightLine?.line ?? null,
+    });
+
+    if (leftLine && rightLine) {
+      diffs.push(
+        ...diffTokens(
+          leftLine.tokens,
+          rightLine.tokens,
+          algorithm,
+          leftLine.start,
+          rightLine.start,
+        ),
+      );
+    } else if (leftLine) {
+      diffs.push(
+        ...leftLine.tokens.map((_, idx) => ({
+          leftIndex: leftLine.start + idx,
+          rightIndex: null,
+        })),
+      );
+    } else if (rightLine) {
+      diffs.push(
+        ...rightLine.tokens.map((_, idx) => ({
+          leftIndex: null,
+          rightIndex: rightLine.start + idx,
+        })),
+      );
     }
+  };
+
+  let removed: TokenLine[] = [];
+  let added: TokenLine[] = [];
 
-    if (existedInRight) {
-      rightIndex += count;
+  const flushHunk = () => {
+    for (const [leftLine, rightLine] of pairHunkLines(removed, added)) {
+      const kind =
+        leftLine && rightLine ? 'modified' : leftLine ? 'removed' : 'added';
+      pushPair(leftLine, rightLine, kind);
     }
+    removed = [];
+    added = [];
+  };
+
+  let leftIndex = 0;
+  let rightIndex = 0;
+
+  for (const [matchedLeft, matchedRight] of lineMatches) {
+    removed.push(...leftLines.slice(leftIndex, matchedLeft));
+    added.push(...rightLines.slice(rightIndex, matchedRight));
+    flushHunk();
+    pushPair(leftLines[matchedLeft], rightLines[matchedRight], 'unchanged');
+    leftIndex = matchedLeft + 1;
+    rightIndex = matchedRight + 1;
+  }
+
+  removed.push(...leftLines.slice(leftIndex));
+  added.push(...rightLines.slice(rightIndex));
+  flushHunk();
+
+  return { diffs, lines };
+}
+
+function countBlockChars(tokens: Token[], start: number, length: number) {
+  let count = 0;
+  for (let i = start; i < start + length; i++) {
+    count += tokens[i].value.replace(/\s/g, '').length;
+  }
+  return count;
+}
+
+/**
+ * Detect moved blocks like `git diff --color-moved` does.
+ * Runs of deleted tokens that appear again in the runs of added tokens are
+ * paired, the longest block wins when a run has several candidates.
+ */
+export function detectMovedBlocks(
+  left: Token[],
+  right: Token[],
+  diffs: TokenDiff[],
+): TokenDiff[] {
+  const deleted = new Set<number>();
+  const added = new Set<number>();
+
+  for (const { leftIndex, rightIndex } of diffs) {
+    if (rightIndex == null && leftIndex != null) deleted.add(leftIndex);
+    if (leftIndex == null && rightIndex != null) added.add(rightIndex);
+  }
+
+  if (deleted.size === 0 || added.size === 0) return diffs;
+
+  const addedByValue = new Map<string, number[]>();
+  for (const rightIndex of [...added].sort((a, b) => a - b)) {
+    const token = right[rightIndex];
+    if (isTokenSpaces(token)) continue;
+    const indexes = addedByValue.get(token.value) ?? [];
+    indexes.push(rightIndex);
+    addedByValue.set(token.value, indexes);
+  }
+
+  // rightIndex -> leftIndex
+  const movedPairs = new Map<number, number>();
+
+  const getMatchLength = (leftStart: number, rightStart: number) => {
+    let length = 0;
+    while (
+      deleted.has(leftStart + length) &&
+      added.has(rightStart + length) &&
+      isSameToken(left[leftStart + length], right[rightStart + length])
+    ) {
+      length++;
+    }
+    return length;
+  };
+
+  for (const leftStart of [...deleted].sort((a, b) => a - b)) {
+    // consumed by a previous block
+    if (!deleted.has(leftStart)) continue;
+
+    const candidates = addedByValue.get(left[leftStart].value) ?? [];
+    let bestStart = -1;
+    let bestLength = 0;
+
+    for (const rightStart of candidates) {
+      const length = getMatchLength(leftStart, rightStart);
+      if (length > bestLength) {
+        bestStart = rightStart;
+        bestLength = length;
+      }
+    }
+
+    if (
+      bestLength === 0 ||
+      countBlockChars(left, leftStart, bestLength) < MIN_MOVED_BLOCK_CHARS
+    ) {
+      continue;
+    }
+
+    for (let i = 0; i < bestLength; i++) {
+      deleted.delete(leftStart + i);
+      added.delete(bestStart + i);
+      movedPairs.set(bestStart + i, leftStart + i);
+    }
+  }
+
+  if (movedPairs.size === 0) return diffs;
+
+  const movedLeft = new Set(movedPairs.values());
+
+  return diffs.flatMap<TokenDiff>((diff) => {
+    const { leftIndex, rightIndex } = diff;
+    if (leftIndex != null && rightIndex == null && movedLeft.has(leftIndex)) {
+      return [];
+    }
+    if (leftIndex == null && rightIndex != null) {
+      const movedFrom = movedPairs.get(rightIndex);
+      if (movedFrom != null) {
+        return [{ leftIndex: movedFrom, rightIndex, moved: true }];
+      }
+    }
+    return [diff];
+  });
+}
+
+/**
+ * Get the `[start, end)` indexes of the tokens overlapping the text range
+ */
+export function getTokenIndexRange(
+  tokens: Token[],
+  range: TextRange,
+): [start: number, end: number] {
+  let start = -1;
+  let end = -1;
+  let offset = 0;
+
+  tokens.forEach((token, index) => {
+    const tokenEnd = offset + token.value.length;
+    if (offset < range.end && tokenEnd > range.start) {
+      if (start === -1) start = index;
+      end = index + 1;
+    }
+    offset = tokenEnd;
+  });
+
+  return start === -1 ? [0, 0] : [start, end];
+}
+
+/**
+ * Apply manual pairing hints to the diffs.
+ * Tokens of the hinted ranges lose their previous partners, then they are
+ * paired one by one when both ranges have the same count of tokens, or by
+ * diffing the ranges otherwise.
+ */
+export function applyPairingHints(
+  left: Token[],
+  right: Token[],
+  diffs: TokenDiff[],
+  hints: TokenPairingHint[],
+): TokenDiff[] {
+  let result = diffs;
+
+  for (const hint of hints) {
+    const [leftStart, leftEnd] = getTokenIndexRange(left, hint.left);
+    const [rightStart, rightEnd] = getTokenIndexRange(right, hint.right);
+    if (leftStart === leftEnd && rightStart === rightEnd) continue;
+
+    const inLeftRange = (index: number | null): index is number =>
+      index != null && index >= leftStart && index < leftEnd;
+    const inRightRange = (index: number | null): index is number =>
+      index != null && index >= rightStart && index < rightEnd;
+
+    const next: TokenDiff[] = [];
+    for (const diff of result) {
+      const { leftIndex, rightIndex } = diff;
+      const hintedLeft = inLeftRange(leftIndex);
+      const hintedRight = inRightRange(rightIndex);
+
+      if (!hintedLeft && !hintedRight) {
+        next.push(diff);
+      } else if (hintedLeft && rightIndex != null && !hintedRight) {
+        // the partner outside of the hint becomes an added token
+        next.push({ leftIndex: null, rightIndex });
+      } else if (hintedRight && leftIndex != null && !hintedLeft) {
+        next.push({ leftIndex, rightIndex: null });
+      }
+    }
+
+    const leftTokens = left.slice(leftStart, leftEnd);
+    const rightTokens = right.slice(rightStart, rightEnd);
+
+    if (leftTokens.length === rightTokens.length) {
+      next.push(
+        ...leftTokens.map((_, idx) => ({
+          leftIndex: leftStart + idx,
+          rightIndex: rightStart + idx,
+        })),
+      );
+    } else {
+      next.push(
+        ...diffTokens(
+          leftTokens,
+          rightTokens,
+          getDiffStrategy().func,
+          leftStart,
+          rightStart,
+        ),
+      );
+    }
+
+    result = next;
+  }
+
+  return result === diffs ? diffs : sortDiffs(result);
+}
+
+/**
+ * Sort diffs back into the order of a diff: by right index, with deleted tokens
+ * right after the partner of the nearest kept token before them
+ */
+function sortDiffs(diffs: TokenDiff[]): TokenDiff[] {
+  const rightIndexes: number[] = [];
+  for (const { leftIndex, rightIndex } of diffs) {
+    if (leftIndex != null && rightIndex != null) {
+      rightIndexes[leftIndex] = rightIndex;
+    }
+  }
+
+  const anchors: number[] = [];
+  let anchor = -1;
+  for (let leftIndex = 0; leftIndex < rightIndexes.length; leftIndex++) {
+    anchor = rightIndexes[leftIndex] ?? anchor;
+    anchors[leftIndex] = anchor;
+  }
+
+  // [position, deleted, leftIndex]
+  const getKey = ({ leftIndex, rightIndex }: TokenDiff) =>
+    rightIndex != null
+      ? [rightIndex, 0, 0]
+      : [anchors[leftIndex!] ?? anchor, 1, leftIndex!];
+
+  return diffs
+    .map((diff) => ({ diff, key: getKey(diff) }))
+    .sort(
+      (a, b) =>
+        a.key[0] - b.key[0] || a.key[1] - b.key[1] || a.key[2] - b.key[2],
+    )
+    .map(({ diff }) => diff);
+}
+
+function isMorphable(left: Token, right: Token) {
+  if (isTokenSpaces(left) || isTokenSpaces(right)) return false;
+  if (left.value === right.value) return false;
+  if (left.types.join(' ') !== right.types.join(' ')) return false;
+
+  const maxLength = Math.max(left.value.length, right.value.length);
+  const similarity = 1 - getEditDistance(left.value, right.value) / maxLength;
+
+  return similarity >= MIN_MORPH_SIMILARITY;
+}
+
+function createMorphSegments(left: string, right: string): MorphSegment[] {
+  const segments: MorphSegment[] = [];
+  let leftOffset = 0;
+  let rightOffset = 0;
+
+  for (const change of diffChars(left, right)) {
+    segments.push({
+      text: change.value,
+      leftOffset: change.added ? null : leftOffset,
+      rightOffset: change.removed ? null : rightOffset,
+    });
+    if (!change.added) leftOffset += change.value.length;
+    if (!change.removed) rightOffset += change.value.length;
+  }
+
+  return segments;
+}
+
+/**
+ * Pair deleted and added tokens that are similar but not equal.
+ * Only tokens of the same gap between two kept tokens are paired, in order.
+ */
+export function detectMorphs(
+  left: Token[],
+  right: Token[],
+  diffs: TokenDiff[],
+): TokenDiff[] {
+  const result: TokenDiff[] = [];
+  let gap: TokenDiff[] = [];
+
+  const flushGap = () => {
+    const added = gap.filter((diff) => diff.leftIndex == null);
+    const morphed = new Set<TokenDiff>();
+    let addedIndex = 0;
+
+    for (const diff of gap) {
+      if (diff.leftIndex == null) continue;
+      const leftToken = left[diff.leftIndex];
+      const matchIndex = added.findIndex(
+        (addedDiff, index) =>
+          index >= addedIndex &&
+          isMorphable(leftToken, right[addedDiff.rightIndex!]),
+      );
+      if (matchIndex === -1) continue;
+
+      const rightIndex = added[matchIndex].rightIndex!;
+      morphed.add(added[matchIndex]);
+      morphed.add(diff);
+      result.push({
+        leftIndex: diff.leftIndex,
+        rightIndex,
+        morph: createMorphSegments(leftToken.value, right[rightIndex].value),
+      });
+      addedIndex = matchIndex + 1;
+    }
+
+    result.push(...gap.filter((diff) => !morphed.has(diff)));
+    gap = [];
+  };
+
+  for (const diff of diffs) {
+    if (diff.leftIndex == null || diff.rightIndex == null) {
+      gap.push(diff);
+    } else {
+      flushGap();
+      result.push(diff);
+    }
+  }
+  flushGap();
+
+  return result;
+}
+
+export function createMutation(
+  left: Token[],
+  right: Token[],
+  options: MutationOptions = {},
+): MovMutation {
+  const {
+    lineAware = true,
+    detectMoves = true,
+    detectMorphs: shouldDetectMorphs = true,
+    strategyId,
+    syntaxParser,
+    pairingHints,
+  } = options;
+  const algorithm = getDiffStrategy(strategyId).func;
+
+  const { diffs, lines } = lineAware
+    ? createLineAwareDiffs(left, right, algorithm)
+    : { diffs: diffTokens(left, right, algorithm), lines: [] };
+
+  let finalDiffs = diffs;
+  if (syntaxParser) {
+    const syntaxHints = matchSyntaxNodes(
+      getTokensCode(left),
+      getTokensCode(right),
+      syntaxParser,
+    );
+    finalDiffs = applyPairingHints(left, right, finalDiffs, syntaxHints);
+  }
+  if (detectMoves) {
+    finalDiffs = detectMovedBlocks(left, right, finalDiffs);
+  }
+  if (shouldDetectMorphs) {
+    finalDiffs = detectMorphs(left, right, finalDiffs);
+  }
+  if (pairingHints?.length) {
+    finalDiffs = applyPairingHints(left, right, finalDiffs, pairingHints);
   }
 
   return {
     left,
     right,
-    diffs,
+    diffs: finalDiffs,
+    lines,
   };
 }
@@ -0,0 +1,145 @@
+import { clamp, createRandom } from '../../utils/number';
+import { type Token } from '../tokenize/index';
+import { type MovMutation, type TokenDiff } from './mutation';
+
+export enum StaggerMode {
+  NONE = 'none',
+  LINE = 'line',
+  COLUMN = 'column',
+  DISTANCE = 'distance',
+  RANDOM = 'random',
+}
+
+/**
+ * Default share of each phase spent on delays when staggering
+ */
+export const DEFAULT_STAGGER_AMOUNT = 0.5;
+
+/**
+ * Staggering can never take the whole phase, or the last tokens would have no time to animate
+ */
+export const MAX_STAGGER_AMOUNT = 0.9;
+
+type DiffPhase = 'out' | 'in' | 'move';
+
+export interface TokenLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Get where each token starts, lines and columns are 0 based
+ * @param tokens
+ * @returns
+ */
+export function getTokenLocations(tokens: Token[]) {
+  const locations: TokenLocation[] = [];
+  let line = 0;
+  let column = 0;
+
+  for (const { value } of tokens) {
+    locations.push({ line, column });
+
+    const lines = value.split('\n');
+    if (lines.length === 1) {
+      column += value.length;
+    } else {
+      line += lines.length - 1;
+      column = lines[lines.length - 1].length;
+    }
+  }
+
+  return locations;
+}
+
+function getDiffPhase({ leftIndex, rightIndex }: TokenDiff): DiffPhase {
+  if (leftIndex == null) return 'in';
+  if (rightIndex == null) return 'out';
+  return 'move';
+}
+
+function isEdit(diff: TokenDiff) {
+  return diff.leftIndex == null || diff.rightIndex == null || !!diff.morph;
+}
+
+/**
+ * Get how late each token of a mutation starts its phase, from `0` (first) to `1` (last).
+ * Tokens are ordered among the tokens of the same phase, so every phase is spread evenly
+ * @param mutation
+ * @param mode
+ * @param seed Seed of the random mode
+ * @returns Orders in the same order as `mutation.diffs`
+ */
+export function getStaggerOrders(
+  { left, right, diffs }: MovMutation,
+  mode: StaggerMode,
+  seed = 0,
+): number[] {
+  if (mode === StaggerMode.NONE) {
+    return diffs.map(() => 0);
+  }
+
+  const leftLocations = getTokenLocations(left);
+  const rightLocations = getTokenLocations(right);
+  // Deleted tokens only exist on the left side, the others are placed where they end up
+  const locations = diffs.map(({ leftIndex, rightIndex }) =>
+    rightIndex == null ? leftLocations[leftIndex!] : rightLocations[rightIndex],
+  );
+  // Changes ripple out from the first edited line
+  const editLine = Math.min(
+    ...diffs.flatMap((diff, index) =>
+      isEdit(diff) ? [locations[index].line] : [],
+    ),
+  );
+
+  const random = createRandom(seed);
+  const values = diffs.map((diff, index) => {
+    const { line, column } = locations[index];
+
+    switch (mode) {
+      case StaggerMode.LINE:
+        return line;
+      case StaggerMode.COLUMN:
+        return column;
+      case StaggerMode.DISTANCE:
+        return Number.isFinite(editLine) ? Math.abs(line - editLine) : 0;
+      case StaggerMode.RANDOM:
+        return random();
+      default:
+        return 0;
+    }
+  });
+
+  const ranges = new Map<DiffPhase, { min: number; max: number }>();
+  diffs.forEach((diff, index) => {
+    const phase = getDiffPhase(diff);
+    const range = ranges.get(phase) ?? { min: Infinity, max: -Infinity };
+    range.min = Math.min(range.min, values[index]);
+    range.max = Math.max(range.max, values[index]);
+    ranges.set(phase, range);
+  });
+
+  return diffs.map((diff, index) => {
+    const { min, max } = ranges.get(getDiffPhase(diff))!;
+
+    return max > min ? (values[index] - min) / (max - min) : 0;
+  });
+}
+
+/**
+ * Delay the progress of a phase by the order of a token, the delays take
+ * `amount` of the phase, so the last token still finishes with the phase
+ * @param progress The progress of the phase, not clamped
+ * @param order From `getStaggerOrders`
+ * @param amount
+ * @returns
+ */
+export function staggerProgress(
+  progress: number,
+  order: number,
+  amount: number,
+) {
+  const stagger = clamp(amount, 0, MAX_STAGGER_AMOUNT);
+
+  return (progress - order * stagger) / (1 - stagger);
+}
@@ -0,0 +1,110 @@
+import { type Language as CodeMirrorLanguage } from '@codemirror/language';
+import { type TokenPairingHint } from './mutation';
+
+export type SyntaxParser = CodeMirrorLanguage['parser'];
+
+/**
+ * Syntax nodes with less non-space characters than this are left to the
+ * token diff, matching them structurally brings nothing
+ */
+const MIN_SYNTAX_NODE_CHARS = 20;
+
+interface SyntaxNode {
+  from: number;
+  to: number;
+  key: string;
+}
+
+function normalizeCode(code: string) {
+  return code.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collect the named syntax nodes worth matching, larger nodes first
+ */
+function collectSyntaxNodes(code: string, parser: SyntaxParser) {
+  const nodes: SyntaxNode[] = [];
+
+  parser.parse(code).iterate({
+    enter(node) {
+      if (node.type.isTop || node.type.isError || node.type.isAnonymous) {
+        return;
+      }
+
+      const text = code.slice(node.from, node.to);
+      if (text.replace(/\s/g, '').length < MIN_SYNTAX_NODE_CHARS) {
+        // children are even smaller
+        return false;
+      }
+
+      nodes.push({
+        from: node.from,
+        to: node.to,
+        key: `${node.name}\n${normalizeCode(text)}`,
+      });
+    },
+  });
+
+  return nodes.sort((a, b) => b.to - b.from - (a.to - a.from));
+}
+
+function isInside(node: SyntaxNode, ranges: SyntaxNode[]) {
+  return ranges.some((range) => node.from >= range.from && node.to <= range.to);
+}
+
+function isOverlapping(node: SyntaxNode, ranges: SyntaxNode[]) {
+  return ranges.some((range) => node.from < range.to && node.to > range.from);
+}
+
+/**
+ * Match the syntax nodes of two versions of a code, like functions, blocks
+ * and arguments, so they can be kept together even when they are moved or
+ * wrapped. Nodes are matched by type and content, the largest first, and the
+ * descendants of a matched node are not matched again.
+ * @returns The matched nodes as pairing hints
+ */
+export function matchSyntaxNodes(
+  leftCode: string,
+  rightCode: string,
+  parser: SyntaxParser,
+): TokenPairingHint[] {
+  const leftNodes = collectSyntaxNodes(leftCode, parser);
+  const rightNodes = collectSyntaxNodes(rightCode, parser);
+
+  const rightNodesByKey = new Map<string, SyntaxNode[]>();
+  for (const node of rightNodes) {
+    const nodes = rightNodesByKey.get(node.key) ?? [];
+    nodes.push(node);
+    rightNodesByKey.set(node.key, nodes);
+  }
+
+  const matchedLeft: SyntaxNode[] = [];
+  const matchedRight: SyntaxNode[] = [];
+  const hints: TokenPairingHint[] = [];
+
+  for (const leftNode of leftNodes) {
+    if (isInside(leftNode, matchedLeft)) continue;
+
+    const candidates = (rightNodesByKey.get(leftNode.key) ?? []).filter(
+      (node) => !isOverlapping(node, matchedRight),
+    );
+    if (candidates.length === 0) continue;
+
+    // prefer the candidate at the closest position
+    const rightNode = candidates.reduce((closest, node) =>
+      Math.abs(node.from - leftNode.from) <
+      Math.abs(closest.from - leftNode.from)
+        ? node
+        : closest,
+    );
+
+    matchedLeft.push(leftNode);
+    matchedRight.push(rightNode);
+    hints.push({
+      left: { start: leftNode.from, end: leftNode.to },
+      right: { start: rightNode.from, end: rightNode.to },
+    });
+  }
+
+  return hints;
+}
@@ -6,6 +6,12 @@ import {
   getEasingFunction,
   DEFAULT_EASING,
 } from './easing';
+import { DEFAULT_TYPING_SPEED } from './typewriter';
+import {
+  DEFAULT_STAGGER_AMOUNT,
+  StaggerMode,
+  staggerProgress,
+} from './stagger';
 
 export interface TransitionState {
   /** 0 - 1 */
@@ -26,6 +32,7 @@ export enum TransitionEffectType {
   SCALE = 'scale',
   ZOOM_IN = 'zoomIn',
   ZOOM_OUT = 'zoomOut',
+  TYPEWRITER = 'typewriter',
 }
 
 export interface TransitionConfig {
@@ -39,8 +46,38 @@ export interface TransitionConfig {
   slideDistance?: number; // For slide effects
   scaleAmount?: number; // For scale effects
   fadeOpacity?: number; // For fade effects
+  typingSpeed?: number; // For typewriter effects, characters per second
+  // Diff strategy used to pair the tokens of this transition
+  diffStrategyId?: string;
+  // Match syntax nodes before tokens, keeps functions and blocks together
+  structuralDiff?: boolean;
+  // Start the tokens of each phase one after another
+  staggerMode?: StaggerMode;
+  staggerAmount?: number; // Share of each phase spent on delays, 0 - 0.9
+  staggerSeed?: number; // For random stagger
+  /**
+   * Styles of the tokens of a type, keyed by Prism types like `comment` or `keyword`
+   */
+  typeStyles?: Record<string, TransitionStyle>;
 }
 
+/**
+ * The part of a transition config a token type can override
+ */
+export type TransitionStyle = Partial<
+  Pick<
+    TransitionConfig,
+    | 'effectType'
+    | 'easingId'
+    | 'slideDistance'
+    | 'scaleAmount'
+    | 'fadeOpacity'
+    | 'outDurationProportion'
+    | 'moveDurationProportion'
+    | 'inDurationProportion'
+  >
+>;
+
 export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
   outDurationProportion: 0.5,
   moveDurationProportion: 1.0,
@@ -51,8 +88,44 @@ export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
   slideDistance: 50,
   scaleAmount: 0.8,
   fadeOpacity: 0.0,
+  typingSpeed: DEFAULT_TYPING_SPEED,
+  staggerMode: StaggerMode.NONE,
+  staggerAmount: DEFAULT_STAGGER_AMOUNT,
+  staggerSeed: 0,
 };
 
+/**
+ * Resolve the config of a token from its types, the same way themes resolve colors,
+ * styles of later types win. The same config is returned when no type has a style
+ * @param config
+ * @param types
+ * @returns
+ */
+export function getTypesTransitionConfig(
+  config: TransitionConfig,
+  types: string[],
+): TransitionConfig {
+  const { typeStyles } = config;
+  if (!typeStyles) return config;
+
+  let resolved = config;
+  for (const type of types) {
+    const style = typeStyles[type];
+    if (style) {
+      resolved = { ...resolved, ...style };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Use the specified easing function or fall back to the default
+ */
+export function getTransitionEase(config: TransitionConfig) {
+  return config.easingId ? getEasingFunction(config.easingId) : config.ease;
+}
+
 /**
  * The transition is divided into three steps:
  * 1. The deleted contents fade away.
@@ -62,23 +135,32 @@ export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
  *
  * @param totalDuration
  * @param currentTime
+ * @param order When staggered, how late the token starts its steps, 0 - 1
  */
 export function computeTransitionState(
   progress: number,
   config: TransitionConfig = DEFAULT_TRANSITION_CONFIG,
+  order = 0,
 ): TransitionState {
   const MOVE_START_PROPORTION =
     (1 - config.outDurationProportion - config.inDurationProportion) / 2 +
     config.outDurationProportion -
     config.moveDurationProportion / 2;
 
-  // Use the specified easing function or fall back to the default
-  const easingFunc = config.easingId
-    ? getEasingFunction(config.easingId)
-    : config.ease;
+  const easingFunc = getTransitionEase(config);
 
   const clampProgressAndEase = (progress: number) =>
-    easingFunc(clamp01(progress));
+    easingFunc(
+      clamp01(
+        config.staggerMode && config.staggerMode !== StaggerMode.NONE
+          ? staggerProgress(
+              progress,
+              order,
+              config.staggerAmount ?? DEFAULT_STAGGER_AMOUNT,
+            )
+          : progress,
+      ),
+    );
 
   return {
     outProgress: clampProgressAndEase(progress / config.outDurationProportion),
@@ -182,6 +264,11 @@ export function applyTransitionEffect(
       alpha = progress;
       break;
 
+    case TransitionEffectType.TYPEWRITER:
+      // Typed characters are placed by the renderer, the others only fade
+      alpha = progress;
+      break;
+
     default:
       alpha = progress;
       break;
@@ -0,0 +1,208 @@
+import { type Position } from '../../types/base';
+import { type Token } from '../tokenize/index';
+import { type MovMutation } from './mutation';
+
+/**
+ * Default typing speed of typewriter transitions, in characters per second
+ */
+export const DEFAULT_TYPING_SPEED = 30;
+
+/**
+ * Transitions without inserted characters still need time for the deleted
+ * and moved tokens, in ms
+ */
+export const MIN_TYPEWRITER_TRANSITION_TIME = 300;
+
+/**
+ * A run of inserted characters in a token of the `to` side,
+ * either a whole added token or the added part of a morphed token
+ */
+export interface InsertedRun {
+  rightIndex: number;
+  /**
+   * Character offset in the `to` token
+   */
+  offset: number;
+  text: string;
+}
+
+export interface TypedRun extends InsertedRun {
+  /**
+   * The characters of the run typed so far
+   */
+  typedText: string;
+  position: Position;
+}
+
+export interface TypewriterLayout {
+  /**
+   * Positions of the `to` tokens when only the typed characters take up space
+   */
+  tokenPositions: Position[];
+  runs: TypedRun[];
+  /**
+   * Right after the last typed character, `null` when nothing is inserted
+   */
+  caret: Position | null;
+}
+
+/**
+ * Get the inserted characters of a mutation in reading order,
+ * which is the order they are typed in
+ * @param mutation
+ * @returns
+ */
+export function getInsertedRuns({ right, diffs }: MovMutation): InsertedRun[] {
+  const runs: InsertedRun[] = [];
+
+  for (const { leftIndex, rightIndex, morph } of diffs) {
+    if (rightIndex == null) continue;
+
+    if (leftIndex == null) {
+      runs.push({ rightIndex, offset: 0, text: right[rightIndex].value });
+    } else if (morph) {
+      for (const { text, leftOffset, rightOffset } of morph) {
+        if (leftOffset == null && rightOffset != null) {
+          runs.push({ rightIndex, offset: rightOffset, text });
+        }
+      }
+    }
+  }
+
+  return runs.sort(
+    (a, b) => a.rightIndex - b.rightIndex || a.offset - b.offset,
+  );
+}
+
+export function countInsertedCharacters(mutation: MovMutation) {
+  return getInsertedRuns(mutation).reduce(
+    (count, run) => count + run.text.length,
+    0,
+  );
+}
+
+/**
+ * The time in ms it takes to type the inserted characters of a mutation
+ * @param mutation
+ * @param typingSpeed characters per second
+ * @returns
+ */
+export function getTypewriterTransitionTime(
+  mutation: MovMutation,
+  typingSpeed = DEFAULT_TYPING_SPEED,
+) {
+  const count = countInsertedCharacters(mutation);
+
+  return Math.max(
+    MIN_TYPEWRITER_TRANSITION_TIME,
+    Math.round((count / Math.max(typingSpeed, 1)) * 1000),
+  );
+}
+
+/**
+ * Move a position past a text, line breaks restart from the line start
+ */
+function advancePosition(
+  { x, y }: Position,
+  text: string,
+  measureTextWidth: (text: string) => number,
+  lineHeight: number,
+  lineStart: number,
+): Position {
+  const lines = text.split('\n');
+  if (lines.length === 1) {
+    return { x: x + measureTextWidth(text), y };
+  }
+
+  return {
+    x: lineStart + measureTextWidth(lines[lines.length - 1]),
+    y: y + lineHeight * (lines.length - 1),
+  };
+}
+
+/**
+ * Lay out the `to` tokens while only `typedCount` inserted characters are typed,
+ * the untyped characters take up no space, so the following tokens are pushed
+ * along as the typing goes on
+ * @param tokens The `to` tokens
+ * @param insertedRuns From `getInsertedRuns`
+ * @param typedCount
+ * @param measureTextWidth Measure a single line text
+ * @param lineHeight
+ * @param lineStart Where the lines start, after the gutter
+ * @returns
+ */
+export function layoutTypewriter(
+  tokens: Token[],
+  insertedRuns: InsertedRun[],
+  typedCount: number,
+  measureTextWidth: (text: string) => number,
+  lineHeight: number,
+  lineStart = 0,
+): TypewriterLayout {
+  const runsByToken = new Map<number, InsertedRun[]>();
+  for (const run of insertedRuns) {
+    const tokenRuns = runsByToken.get(run.rightIndex) ?? [];
+    tokenRuns.push(run);
+    runsByToken.set(run.rightIndex, tokenRuns);
+  }
+
+  const tokenPositions: Position[] = [];
+  const runs: TypedRun[] = [];
+  let remaining = typedCount;
+  let position: Position = { x: lineStart, y: 0 };
+
+  for (let i = 0; i < tokens.length; i++) {
+    tokenPositions.push(position);
+    const { value } = tokens[i];
+    let offset = 0;
+
+    for (const run of runsByToken.get(i) ?? []) {
+      position = advancePosition(
+        position,
+        value.slice(offset, run.offset),
+        measureTextWidth,
+        lineHeight,
+        lineStart,
+      );
+      const typedText = run.text.slice(0, Math.max(0, remaining));
+      remaining -= typedText.length;
+      runs.push({ ...run, typedText, position });
+
+      position = advancePosition(
+        position,
+        typedText,
+        measureTextWidth,
+        lineHeight,
+        lineStart,
+      );
+      offset = run.offset + run.text.length;
+    }
+
+    position = advancePosition(
+      position,
+      value.slice(offset),
+      measureTextWidth,
+      lineHeight,
+      lineStart,
+    );
+  }
+
+  // Runs are typed in order, so the typed ones come first
+  const typedRuns = runs.filter((run) => run.typedText.length > 0);
+  const lastTypedRun = typedRuns[typedRuns.length - 1];
+  let caret: Position | null = null;
+  if (lastTypedRun) {
+    caret = advancePosition(
+      lastTypedRun.position,
+      lastTypedRun.typedText,
+      measureTextWidth,
+      lineHeight,
+      lineStart,
+    );
+  } else if (runs.length > 0) {
+    caret = runs[0].position;
+  }
+
+  return { tokenPositions, runs, caret };
+}
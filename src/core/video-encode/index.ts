@@ -75,7 +75,7 @@ export class VideoEncoder {
 
   async encode(): Promise<Blob> {
     const { renderer, frameCount, frameDuration, dedupeFrames } = this;
-    await renderer.readyPromise;
+    await renderer.waitForExport();
     const { onProgress, onFPSUpdate } = this.options;
     const writer = new WebMWriter({
       quality: 0.9,
@@ -36,6 +36,7 @@ describe('Encode Task Store Slice', () => {
       // Mock app slice actions
       updateSnapshot: vi.fn(),
       updateDocProperties: vi.fn(),
+      addCustomGrammar: vi.fn(),
       setCurrentTime: vi.fn(),
       gotoSnapshot: vi.fn(),
       duplicateSnapshot: vi.fn(),
@@ -5,13 +5,21 @@ import {
   type DocSnapshot,
   getSumDuration,
 } from '../core/doc/raw-doc';
+import { syncTypewriterTransitionTimes } from '../core/doc/doc';
 import { Language } from '../core/code-languages/languages';
+import {
+  type CustomGrammar,
+  registerCustomGrammar,
+} from '../core/code-languages/custom-grammar';
 import { clamp } from '../utils/number';
 import { removeArrayAt, updateArrayAt } from '../utils/array';
 
 export interface AppSliceState {
   doc: RawDoc;
 
+  // Languages imported by the user, saved with the project
+  customGrammars: CustomGrammar[];
+
   currentTime: number;
 
   playing: boolean;
@@ -89,6 +97,8 @@ export const initialState: AppSliceState = {
     ],
   },
 
+  customGrammars: [],
+
   currentTime: 0,
 
   playing: false,
@@ -106,6 +116,8 @@ export interface AppSliceAction {
 
   updateDocProperties: (doc: Omit<RawDoc, 'snapshots'>) => void;
 
+  addCustomGrammar: (grammar: CustomGrammar) => void;
+
   setCurrentTime: (currentTime: number) => void;
 
   gotoSnapshot: (index: number) => void;
@@ -145,10 +157,13 @@ export const createAppSlice: StateCreator<
   updateSnapshot(index, snapshot) {
     set((state) => {
       const snapshots = updateArrayAt(state.doc.snapshots, index, snapshot);
-      const newDoc = {
-        ...state.doc,
-        snapshots,
-      };
+      const newDoc = syncTypewriterTransitionTimes(
+        {
+          ...state.doc,
+          snapshots,
+        },
+        [index],
+      );
 
       return reviseStateCurrentTime({
         doc: newDoc,
@@ -159,10 +174,20 @@ export const createAppSlice: StateCreator<
 
   updateDocProperties(doc) {
     set((state) => ({
-      doc: {
+      doc: syncTypewriterTransitionTimes({
         ...state.doc,
         ...doc,
-      },
+      }),
+    }));
+  },
+
+  addCustomGrammar(grammar) {
+    registerCustomGrammar(grammar);
+    set((state) => ({
+      customGrammars: [
+        ...state.customGrammars.filter(({ id }) => id !== grammar.id),
+        grammar,
+      ],
     }));
   },
 
@@ -199,10 +224,13 @@ export const createAppSlice: StateCreator<
         index + 1,
         newSnapshot,
       );
-      const newDoc = {
-        ...state.doc,
-        snapshots,
-      };
+      const newDoc = syncTypewriterTransitionTimes(
+        {
+          ...state.doc,
+          snapshots,
+        },
+        [index + 1],
+      );
       const newCurrentTime = getSumDuration(state.doc, index + 1);
 
       return reviseStateCurrentTime({
@@ -217,10 +245,14 @@ export const createAppSlice: StateCreator<
     set((state) => {
       const snapshots = removeArrayAt(state.doc.snapshots, index);
 
-      const newDoc = {
-        ...state.doc,
-        snapshots,
-      };
+      // The snapshot after the removed one is the next of the one before it
+      const newDoc = syncTypewriterTransitionTimes(
+        {
+          ...state.doc,
+          snapshots,
+        },
+        [index],
+      );
 
       return reviseStateCurrentTime({
         doc: newDoc,
@@ -235,10 +267,13 @@ export const createAppSlice: StateCreator<
       const [movedSnapshot] = snapshots.splice(oldIndex, 1);
       snapshots.splice(newIndex, 0, movedSnapshot);
 
-      const newDoc = {
-        ...state.doc,
-        snapshots,
-      };
+      const newDoc = syncTypewriterTransitionTimes(
+        {
+          ...state.doc,
+          snapshots,
+        },
+        [oldIndex, newIndex],
+      );
 
       return reviseStateCurrentTime({
         doc: newDoc,
@@ -1,5 +1,8 @@
 import { type StateCreator } from 'zustand';
 import { ProjectImportExportManager } from '../core/import-export/project-manager';
+import { type CustomGrammar } from '../core/code-languages/custom-grammar';
+import { getSnapshotLanguage, getSumDuration } from '../core/doc/raw-doc';
+import { type AppSliceAction, type AppSliceState } from './app';
 import {
   type ProjectData,
   type ImportOptions,
@@ -115,6 +118,9 @@ export interface ImportExportSliceAction {
   
   // Manager actions
   initializeManager: () => void;
+
+  // Project data of the app state, for exports, backups and templates
+  getCurrentProjectData: () => Promise<ProjectData>;
 }
 
 // ============================================================================
@@ -172,8 +178,20 @@ const initialState: ImportExportSliceState = {
 // Store Slice Creator
 // ============================================================================
 
+/**
+ * Get the custom grammars an import brought in
+ */
+function getImportedGrammars(result: ImportResult): CustomGrammar[] {
+  return result.importedItems
+    .filter((item) => item.type === DataType.GRAMMARS)
+    .map((item) => item.importedData as CustomGrammar);
+}
+
 export const createImportExportSlice: StateCreator<
-  ImportExportSliceState & ImportExportSliceAction,
+  ImportExportSliceState &
+    ImportExportSliceAction &
+    Pick<AppSliceState, 'doc' | 'customGrammars'> &
+    Pick<AppSliceAction, 'addCustomGrammar'>,
   [],
   [],
   ImportExportSliceState & ImportExportSliceAction
@@ -206,6 +224,9 @@ export const createImportExportSlice: StateCreator<
       };
 
       const result = await manager.importProject(file, finalOptions);
+      for (const grammar of getImportedGrammars(result)) {
+        state.addCustomGrammar(grammar);
+      }
       
       // Update history
       const history = [...state.importHistory];
@@ -254,6 +275,9 @@ export const createImportExportSlice: StateCreator<
       };
 
       const results = await manager.importBatch(files, finalOptions);
+      for (const grammar of results.flatMap(getImportedGrammars)) {
+        state.addCustomGrammar(grammar);
+      }
       
       set({ importInProgress: false, importProgress: null });
       return results;
@@ -620,9 +644,28 @@ export const createImportExportSlice: StateCreator<
   // ============================================================================
 
   async getCurrentProjectData(): Promise<ProjectData> {
-    // This would get the current project data from the main app state
-    // For now, return a placeholder
-    throw new Error('getCurrentProjectData not implemented - needs integration with main app state');
+    const { doc, customGrammars } = get();
+    const now = new Date();
+
+    return {
+      metadata: {
+        id: `project-${now.getTime()}`,
+        name: 'Untitled Project',
+        version: '1.0.0',
+        createdAt: now,
+        updatedAt: now,
+        tags: [],
+        diffaniVersion: '1.0.0',
+        fileSize: 0,
+        snapshotCount: doc.snapshots.length,
+        totalDuration: getSumDuration(doc),
+      },
+      document: doc,
+      // Only the custom languages the document is written in
+      grammars: customGrammars.filter(({ id }) =>
+        doc.snapshots.some((_, index) => getSnapshotLanguage(doc, index) === id),
+      ),
+    };
   },
 
   async applyRestoredData(data: ProjectData): Promise<void> {
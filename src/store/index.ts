@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { getSumDuration } from '../core/doc/raw-doc';
 import { setRafInterval } from '../utils/raf';
+import { registerCustomGrammar } from '../core/code-languages/custom-grammar';
 import { type AppSliceState, type AppSliceAction, createAppSlice } from './app';
 import {
   type EncodeSliceAction,
@@ -34,6 +35,7 @@ export function createStore() {
         version: 1, // Increment version for new slice
         partialize: (state) => ({
           doc: state.doc,
+          customGrammars: state.customGrammars,
           currentTime: 0,
           playing: false,
           frameRate: state.frameRate,
@@ -42,6 +44,10 @@ export function createStore() {
           exportPreferences: state.exportPreferences,
           autoBackupEnabled: state.autoBackupEnabled,
         }),
+        // Custom languages must be registered before the doc is tokenized
+        onRehydrateStorage: () => (state) => {
+          state?.customGrammars.forEach(registerCustomGrammar);
+        },
       },
     ),
   );
@@ -157,8 +157,8 @@ global.URL = {
 // Only add specific mocks if needed for particular test cases
 
 // Mock code languages to avoid CodeMirror/PrismJS dependencies
-vi.mock('../src/core/code-languages/languages', () => ({
-  Language: {
+vi.mock('../src/core/code-languages/languages', () => {
+  const Language = {
     JAVASCRIPT: 'javascript',
     TYPESCRIPT: 'typescript',
     PYTHON: 'python',
@@ -182,14 +182,26 @@ vi.mock('../src/core/code-languages/languages', () => ({
     SQL: 'sql',
     BASH: 'bash',
     POWERSHELL: 'powershell',
-  },
-  getLanguageExtensions: vi.fn(() => ['.js', '.ts', '.py']),
-  isValidLanguage: vi.fn(
-    (lang: string) => typeof lang === 'string' && lang.length > 0,
-  ),
-  getLanguageFromExtension: vi.fn((ext: string) => 'javascript'),
-  getSupportedLanguages: vi.fn(() => ['javascript', 'typescript', 'python']),
-}));
+  };
+
+  return {
+    Language,
+    LANGUAGES: Object.values(Language).map((id) => ({
+      id,
+      name: id,
+      grammar: {},
+    })),
+    isRegisteredLanguage: vi.fn((id: string) =>
+      Object.values(Language).includes(id),
+    ),
+    getLanguageExtensions: vi.fn(() => ['.js', '.ts', '.py']),
+    isValidLanguage: vi.fn(
+      (lang: string) => typeof lang === 'string' && lang.length > 0,
+    ),
+    getLanguageFromExtension: vi.fn((ext: string) => 'javascript'),
+    getSupportedLanguages: vi.fn(() => ['javascript', 'typescript', 'python']),
+  };
+});
 
 // Mock DOMParser for XML parsing
 global.DOMParser = class DOMParser {
@@ -0,0 +1,35 @@
+import { type Token } from './core/tokenize/index';
+import { type TokenDiff } from './core/transition/mutation';
+import { splitToTokens } from './utils/string';
+
+/**
+ * Split code into tokens without types
+ * @param code
+ * @returns
+ */
+export function tokenize(code: string): Token[] {
+  return splitToTokens(code).map((value) => ({ value, types: [] }));
+}
+
+/**
+ * Get the values of the tokens a diff pairs
+ * @param diffs
+ * @param left
+ * @param right
+ * @returns
+ */
+export function getPairs(diffs: TokenDiff[], left: Token[], right: Token[]) {
+  return diffs
+    .filter(
+      ({ leftIndex, rightIndex }) => leftIndex != null && rightIndex != null,
+    )
+    .map(({ leftIndex, rightIndex }) => [
+      left[leftIndex!].value,
+      right[rightIndex!].value,
+    ]);
+}
+
+/**
+ * Measure text in a monospace font of 10px wide characters
+ */
+export const measureTextWidth = (text: string) => text.length * 10;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { mixColors, parseHexColor } from '../color';
+
+describe('Color Utilities', () => {
+  describe('parseHexColor', () => {
+    it('should parse long and short hex colors', () => {
+      expect(parseHexColor('#ff8000')).toEqual([255, 128, 0]);
+      expect(parseHexColor('#F80')).toEqual([255, 136, 0]);
+      expect(parseHexColor('c5c8c6')).toEqual([197, 200, 198]);
+    });
+
+    it('should return null for other formats', () => {
+      expect(parseHexColor('red')).toBeNull();
+      expect(parseHexColor('#12345')).toBeNull();
+      expect(parseHexColor('rgb(0, 0, 0)')).toBeNull();
+    });
+  });
+
+  describe('mixColors', () => {
+    it('should return the ends at 0 and 1', () => {
+      expect(mixColors('#000', '#ffffff', 0)).toBe('#000000');
+      expect(mixColors('#000', '#ffffff', 1)).toBe('#ffffff');
+    });
+
+    it('should mix the channels', () => {
+      expect(mixColors('#000000', '#ff8040', 0.5)).toBe('#804020');
+    });
+
+    it('should switch unknown colors at the midpoint', () => {
+      expect(mixColors('red', '#fff', 0.4)).toBe('red');
+      expect(mixColors('red', '#fff', 0.6)).toBe('#fff');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { clamp, clamp01 } from '../number';
+import { clamp, clamp01, createRandom } from '../number';
 
 describe('Number Utilities', () => {
   describe('clamp', () => {
@@ -152,4 +152,29 @@ describe('Number Utilities', () => {
       expect(clamp(1e5, 0, 1e6)).toBe(1e5);
     });
   });
+
+  describe('createRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const random1 = createRandom(42);
+      const random2 = createRandom(42);
+
+      for (let i = 0; i < 10; i++) {
+        expect(random1()).toBe(random2());
+      }
+    });
+
+    it('should return numbers in [0, 1)', () => {
+      const random = createRandom(7);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should differ between seeds', () => {
+      expect(createRandom(1)()).not.toBe(createRandom(2)());
+    });
+  });
 });
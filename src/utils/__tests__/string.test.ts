@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getEditDistance } from '../string';
+
+describe('getEditDistance', () => {
+  it('should return 0 for equal strings', () => {
+    expect(getEditDistance('', '')).toBe(0);
+    expect(getEditDistance('abc', 'abc')).toBe(0);
+  });
+
+  it('should count insertions and deletions against empty strings', () => {
+    expect(getEditDistance('', 'abc')).toBe(3);
+    expect(getEditDistance('abc', '')).toBe(3);
+  });
+
+  it('should compute the levenshtein distance', () => {
+    expect(getEditDistance('kitten', 'sitting')).toBe(3);
+    expect(getEditDistance('userName', 'username')).toBe(1);
+    expect(getEditDistance('flaw', 'lawn')).toBe(2);
+  });
+});
@@ -0,0 +1,45 @@
+type RGB = [r: number, g: number, b: number];
+
+/**
+ * Parse a `#rgb` or `#rrggbb` color, returns `null` for other formats
+ * @param color
+ * @returns
+ */
+export function parseHexColor(color: string): RGB | null {
+  const hex = color.trim().replace(/^#/, '');
+
+  if (/^[\da-f]{3}$/i.test(hex)) {
+    return [...hex].map((char) => parseInt(char + char, 16)) as RGB;
+  }
+  if (/^[\da-f]{6}$/i.test(hex)) {
+    return [0, 2, 4].map((index) =>
+      parseInt(hex.slice(index, index + 2), 16),
+    ) as RGB;
+  }
+
+  return null;
+}
+
+/**
+ * Mix two hex colors in RGB, colors that can't be parsed switch at the midpoint
+ * @param from
+ * @param to
+ * @param progress 0 - 1
+ * @returns
+ */
+export function mixColors(from: string, to: string, progress: number) {
+  const fromRGB = parseHexColor(from);
+  const toRGB = parseHexColor(to);
+
+  if (!fromRGB || !toRGB) {
+    return progress < 0.5 ? from : to;
+  }
+
+  return `#${fromRGB
+    .map((value, index) =>
+      Math.round(value + (toRGB[index] - value) * progress)
+        .toString(16)
+        .padStart(2, '0'),
+    )
+    .join('')}`;
+}
@@ -5,3 +5,21 @@ export function clamp(value: number, min: number, max: number) {
 export function clamp01(value: number) {
   return clamp(value, 0, 1);
 }
+
+/**
+ * Create a seeded pseudo random generator (mulberry32),
+ * returns numbers in `[0, 1)` like `Math.random`
+ * @param seed
+ * @returns
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -8,13 +8,13 @@ import { assertNonNull } from '../../../utils/assert';
 import { ThemeManager } from '../../../core/themes/theme-manager';
 import { type CodeTheme } from '../../../core/themes/types';
 import {
-  codeMirrorLanguageMap,
-  type Language,
+  getLanguage,
+  type LanguageId,
 } from '../../../core/code-languages/languages';
 
 interface CodeEditorProps {
   value: string;
-  language: Language;
+  language: LanguageId;
   className?: string;
   onChange: (value: string) => void;
 }
@@ -160,7 +160,7 @@ export default function CodeEditor({
     editorRef.current?.dispatch({
       effects: extensionsCompartment.reconfigure([
         updateListener,
-        codeMirrorLanguageMap[language],
+        getLanguage(language).editorLanguage ?? [],
       ]),
     });
   }, [language, updateListener]);
@@ -1,4 +1,4 @@
-import { type RawDoc } from '../../core/doc/raw-doc';
+import { type RawDoc, getSnapshotLanguage } from '../../core/doc/raw-doc';
 import CodeEditor from './code-editor';
 import Snapshots from './snapshots';
 import styles from './index.module.scss';
@@ -22,7 +22,7 @@ export default function Editor({
     <div className={styles.editor}>
       <CodeEditor
         value={currentSnapShot.code}
-        language={doc.language}
+        language={getSnapshotLanguage(doc, currentSnapshotIndex)}
         onChange={onCodeUpdate}
         className={styles.codeEditor}
       />
@@ -6,6 +6,7 @@ import iconMinus from '../../../../assets/icons/minus.svg';
 import styles from './index.module.scss';
 import Icon from '../../../icon';
 import { TransitionControls } from '../../../transition-controls';
+import { TokenPairing } from '../../../token-pairing';
 
 interface SnapshotProps {
   deletable: boolean;
@@ -66,6 +67,8 @@ export function Snapshot({
       {active && (
         <TransitionControls snapshotIndex={index} snapshot={snapshot} />
       )}
+
+      {active && <TokenPairing snapshotIndex={index} />}
     </div>
   );
 }
@@ -9,7 +9,12 @@ import {
   type ImportProgress,
   type ImportResult,
 } from '../../core/import-export/types';
-import { detectFileFormat, isSupportedImportFile, formatFileSize } from '../../core/import-export/utils/file-utils';
+import {
+  detectFileFormat,
+  isSupportedImportFile,
+  formatFileSize,
+} from '../../core/import-export/utils/file-utils';
+import { createCustomGrammar } from '../../core/code-languages/custom-grammar';
 import uploadIcon from '../../assets/icons/upload.svg';
 import Icon from '../icon';
 import styles from './index.module.scss';
@@ -19,7 +24,10 @@ interface ImportPanelProps {
   onImportError?: (error: Error) => void;
 }
 
-export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProps) {
+export function ImportPanel({
+  onImportComplete,
+  onImportError,
+}: ImportPanelProps) {
   const {
     importInProgress,
     importProgress,
@@ -29,6 +37,8 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
     importBatch,
     previewImport,
     cancelImport,
+    customGrammars,
+    addCustomGrammar,
   } = useStore(
     useShallow((state) => ({
       importInProgress: state.importInProgress,
@@ -39,17 +49,25 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
       importBatch: state.importBatch,
       previewImport: state.previewImport,
       cancelImport: state.cancelImport,
+      customGrammars: state.customGrammars,
+      addCustomGrammar: state.addCustomGrammar,
     })),
   );
 
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [dragOver, setDragOver] = useState(false);
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [importOptions, setImportOptions] = useState<Partial<ImportOptions>>({});
+  const [importOptions, setImportOptions] = useState<Partial<ImportOptions>>(
+    {},
+  );
   const [previewData, setPreviewData] = useState<any>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [showGrammar, setShowGrammar] = useState(false);
+  const [grammarName, setGrammarName] = useState('');
+  const [grammarError, setGrammarError] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const grammarInputRef = useRef<HTMLInputElement>(null);
 
   // ============================================================================
   // File Selection Handlers
@@ -64,9 +82,12 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
     setShowPreview(false);
   }, []);
 
-  const handleFileInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    handleFileSelect(event.target.files);
-  }, [handleFileSelect]);
+  const handleFileInputChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      handleFileSelect(event.target.files);
+    },
+    [handleFileSelect],
+  );
 
   const handleDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -78,14 +99,17 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
     setDragOver(false);
   }, []);
 
-  const handleDrop = useCallback((event: React.DragEvent) => {
-    event.preventDefault();
-    setDragOver(false);
-    handleFileSelect(event.dataTransfer.files);
-  }, [handleFileSelect]);
+  const handleDrop = useCallback(
+    (event: React.DragEvent) => {
+      event.preventDefault();
+      setDragOver(false);
+      handleFileSelect(event.dataTransfer.files);
+    },
+    [handleFileSelect],
+  );
 
   const handleRemoveFile = useCallback((index: number) => {
-    setSelectedFiles(files => files.filter((_, i) => i !== index));
+    setSelectedFiles((files) => files.filter((_, i) => i !== index));
   }, []);
 
   const handleClearFiles = useCallback(() => {
@@ -98,13 +122,19 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
   // Import Options Handlers
   // ============================================================================
 
-  const handleOptionChange = useCallback((key: keyof ImportOptions, value: any) => {
-    setImportOptions(prev => ({ ...prev, [key]: value }));
-  }, []);
+  const handleOptionChange = useCallback(
+    (key: keyof ImportOptions, value: any) => {
+      setImportOptions((prev) => ({ ...prev, [key]: value }));
+    },
+    [],
+  );
 
-  const handlePreferenceChange = useCallback((key: keyof typeof importPreferences, value: any) => {
-    updateImportPreferences({ [key]: value });
-  }, [updateImportPreferences]);
+  const handlePreferenceChange = useCallback(
+    (key: keyof typeof importPreferences, value: any) => {
+      updateImportPreferences({ [key]: value });
+    },
+    [updateImportPreferences],
+  );
 
   // ============================================================================
   // Import Actions
@@ -126,9 +156,17 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
       setShowPreview(true);
     } catch (error) {
       console.error('Preview failed:', error);
-      onImportError?.(error instanceof Error ? error : new Error('Preview failed'));
+      onImportError?.(
+        error instanceof Error ? error : new Error('Preview failed'),
+      );
     }
-  }, [selectedFiles, importPreferences, importOptions, previewImport, onImportError]);
+  }, [
+    selectedFiles,
+    importPreferences,
+    importOptions,
+    previewImport,
+    onImportError,
+  ]);
 
   const handleImport = useCallback(async () => {
     if (selectedFiles.length === 0) return;
@@ -155,7 +193,13 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           success: false,
           importedItems: [],
           skippedItems: [],
-          errors: [{ type: 'system_error' as any, message: 'No results', recoverable: false }],
+          errors: [
+            {
+              type: 'system_error' as any,
+              message: 'No results',
+              recoverable: false,
+            },
+          ],
           warnings: [],
           stats: {
             totalItems: 0,
@@ -179,21 +223,52 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
         setShowPreview(false);
         onImportComplete?.(result);
       } else {
-        const errorMessage = result.errors.length > 0 
-          ? result.errors[0].message 
-          : 'Import failed';
+        const errorMessage =
+          result.errors.length > 0 ? result.errors[0].message : 'Import failed';
         onImportError?.(new Error(errorMessage));
       }
     } catch (error) {
       console.error('Import failed:', error);
-      onImportError?.(error instanceof Error ? error : new Error('Import failed'));
+      onImportError?.(
+        error instanceof Error ? error : new Error('Import failed'),
+      );
     }
-  }, [selectedFiles, importPreferences, importOptions, importProject, importBatch, onImportComplete, onImportError]);
+  }, [
+    selectedFiles,
+    importPreferences,
+    importOptions,
+    importProject,
+    importBatch,
+    onImportComplete,
+    onImportError,
+  ]);
 
   const handleCancel = useCallback(() => {
     cancelImport();
   }, [cancelImport]);
 
+  const handleGrammarFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const fallbackName =
+          grammarName.trim() ||
+          file.name.replace(/(\.tmLanguage)?\.json$/i, '');
+        addCustomGrammar(createCustomGrammar(await file.text(), fallbackName));
+        setGrammarName('');
+        setGrammarError(null);
+      } catch (error) {
+        setGrammarError(
+          error instanceof Error ? error.message : 'Grammar import failed',
+        );
+      }
+    },
+    [grammarName, addCustomGrammar],
+  );
+
   // ============================================================================
   // Render Helpers
   // ============================================================================
@@ -205,7 +280,11 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
       <div className={styles.fileList}>
         <div className={styles.fileListHeader}>
           <span>Selected Files ({selectedFiles.length})</span>
-          <button type="button" onClick={handleClearFiles} className={styles.clearButton}>
+          <button
+            type="button"
+            onClick={handleClearFiles}
+            className={styles.clearButton}
+          >
             Clear All
           </button>
         </div>
@@ -213,7 +292,9 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <div key={index} className={styles.fileItem}>
             <div className={styles.fileInfo}>
               <span className={styles.fileName}>{file.name}</span>
-              <span className={styles.fileSize}>{formatFileSize(file.size)}</span>
+              <span className={styles.fileSize}>
+                {formatFileSize(file.size)}
+              </span>
               <span className={styles.fileFormat}>
                 {detectFileFormat(file).toUpperCase()}
               </span>
@@ -241,14 +322,16 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <span>{Math.round(importProgress.percentage)}%</span>
         </div>
         <div className={styles.progressBar}>
-          <div 
+          <div
             className={styles.progressFill}
             style={{ width: `${importProgress.percentage}%` }}
           />
         </div>
         <div className={styles.progressDetails}>
           <span>Stage: {importProgress.stage}</span>
-          <span>{importProgress.current} / {importProgress.total}</span>
+          <span>
+            {importProgress.current} / {importProgress.total}
+          </span>
         </div>
       </div>
     );
@@ -264,7 +347,12 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
             <span>Format:</span>
             <select
               value={importOptions.format || 'auto'}
-              onChange={(e) => handleOptionChange('format', e.target.value === 'auto' ? undefined : e.target.value)}
+              onChange={(e) =>
+                handleOptionChange(
+                  'format',
+                  e.target.value === 'auto' ? undefined : e.target.value,
+                )
+              }
             >
               <option value="auto">Auto-detect</option>
               <option value={ImportExportFormat.JSON}>JSON</option>
@@ -295,14 +383,25 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <label>
             <span>Conflict Resolution:</span>
             <select
-              value={importOptions.conflictResolution || importPreferences.defaultConflictResolution}
-              onChange={(e) => handleOptionChange('conflictResolution', e.target.value)}
+              value={
+                importOptions.conflictResolution ||
+                importPreferences.defaultConflictResolution
+              }
+              onChange={(e) =>
+                handleOptionChange('conflictResolution', e.target.value)
+              }
             >
-              <option value={ConflictResolutionStrategy.INTERACTIVE}>Interactive</option>
-              <option value={ConflictResolutionStrategy.OVERWRITE}>Overwrite</option>
+              <option value={ConflictResolutionStrategy.INTERACTIVE}>
+                Interactive
+              </option>
+              <option value={ConflictResolutionStrategy.OVERWRITE}>
+                Overwrite
+              </option>
               <option value={ConflictResolutionStrategy.MERGE}>Merge</option>
               <option value={ConflictResolutionStrategy.SKIP}>Skip</option>
-              <option value={ConflictResolutionStrategy.CREATE_NEW}>Create New</option>
+              <option value={ConflictResolutionStrategy.CREATE_NEW}>
+                Create New
+              </option>
             </select>
           </label>
         </div>
@@ -311,8 +410,12 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <label>
             <input
               type="checkbox"
-              checked={importOptions.validateData ?? importPreferences.validateData}
-              onChange={(e) => handleOptionChange('validateData', e.target.checked)}
+              checked={
+                importOptions.validateData ?? importPreferences.validateData
+              }
+              onChange={(e) =>
+                handleOptionChange('validateData', e.target.checked)
+              }
             />
             <span>Validate imported data</span>
           </label>
@@ -322,8 +425,12 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <label>
             <input
               type="checkbox"
-              checked={importOptions.createBackup ?? importPreferences.createBackup}
-              onChange={(e) => handleOptionChange('createBackup', e.target.checked)}
+              checked={
+                importOptions.createBackup ?? importPreferences.createBackup
+              }
+              onChange={(e) =>
+                handleOptionChange('createBackup', e.target.checked)
+              }
             />
             <span>Create backup before import</span>
           </label>
@@ -333,8 +440,12 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
           <label>
             <input
               type="checkbox"
-              checked={importOptions.preserveIds ?? importPreferences.preserveIds}
-              onChange={(e) => handleOptionChange('preserveIds', e.target.checked)}
+              checked={
+                importOptions.preserveIds ?? importPreferences.preserveIds
+              }
+              onChange={(e) =>
+                handleOptionChange('preserveIds', e.target.checked)
+              }
             />
             <span>Preserve original IDs</span>
           </label>
@@ -343,6 +454,64 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
     );
   };
 
+  const renderGrammarImport = () => {
+    if (!showGrammar) return null;
+
+    return (
+      <div className={styles.advancedOptions}>
+        <p className={styles.grammarHint}>
+          Import a Prism grammar or a TextMate grammar JSON to highlight a
+          language that isn't built in.
+        </p>
+
+        <div className={styles.optionGroup}>
+          <label>
+            <span>Language Name:</span>
+            <input
+              type="text"
+              value={grammarName}
+              placeholder="From file"
+              onChange={(e) => setGrammarName(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => grammarInputRef.current?.click()}
+          className={styles.previewButton}
+        >
+          Choose Grammar File
+        </button>
+        <input
+          ref={grammarInputRef}
+          type="file"
+          accept=".json"
+          onChange={handleGrammarFileChange}
+          style={{ display: 'none' }}
+        />
+
+        {grammarError && <p className={styles.grammarError}>{grammarError}</p>}
+
+        {customGrammars.length > 0 && (
+          <div className={styles.fileList}>
+            {customGrammars.map((grammar) => (
+              <div key={grammar.id} className={styles.fileItem}>
+                <div className={styles.fileInfo}>
+                  <span className={styles.fileName}>{grammar.name}</span>
+                  <span className={styles.fileSize}>{grammar.id}</span>
+                  <span className={styles.fileFormat}>
+                    {grammar.format.toUpperCase()}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderPreview = () => {
     if (!showPreview || !previewData) return null;
 
@@ -350,7 +519,9 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
       <div className={styles.previewContainer}>
         <div className={styles.previewHeader}>
           <span>Import Preview</span>
-          <button type="button" onClick={() => setShowPreview(false)}>×</button>
+          <button type="button" onClick={() => setShowPreview(false)}>
+            ×
+          </button>
         </div>
         <div className={styles.previewContent}>
           {previewData.valid ? (
@@ -364,7 +535,9 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
             <div className={styles.previewInvalid}>
               <p>✗ Data validation failed</p>
               {previewData.errors.map((error: any, index: number) => (
-                <p key={index} className={styles.error}>{error.message}</p>
+                <p key={index} className={styles.error}>
+                  {error.message}
+                </p>
               ))}
             </div>
           )}
@@ -427,6 +600,18 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
         {renderAdvancedOptions()}
       </div>
 
+      {/* Custom Grammar */}
+      <div className={styles.optionsSection}>
+        <button
+          type="button"
+          onClick={() => setShowGrammar(!showGrammar)}
+          className={styles.toggleButton}
+        >
+          Custom Grammar {showGrammar ? '▼' : '▶'}
+        </button>
+        {renderGrammarImport()}
+      </div>
+
       {/* Actions */}
       <div className={styles.actions}>
         {selectedFiles.length > 0 && !importInProgress && (
@@ -443,7 +628,8 @@ export function ImportPanel({ onImportComplete, onImportError }: ImportPanelProp
               onClick={handleImport}
               className={styles.importButton}
             >
-              Import {selectedFiles.length > 1 ? `${selectedFiles.length} Files` : ''}
+              Import{' '}
+              {selectedFiles.length > 1 ? `${selectedFiles.length} Files` : ''}
             </button>
           </>
         )}
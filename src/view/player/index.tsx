@@ -71,9 +71,29 @@ export default function Player({ currentTime, doc }: PlayerProps) {
     rendererRef.current?.render(currentTime);
   }, [doc, currentTime]);
 
+  const [fontError, setFontError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+
+    let cancelled = false;
+    void renderer.readyPromise.then(() => {
+      if (!cancelled) setFontError(renderer.fontError?.message ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [doc]);
+
   return (
     <div className={styles.player}>
       <canvas ref={canvasRef} />
+      {fontError && (
+        <div className={styles.fontError} role="alert">
+          {fontError}
+        </div>
+      )}
 
       {/* Playback Controls */}
       <div className={styles.playbackControls}>
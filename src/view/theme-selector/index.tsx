@@ -1,10 +1,12 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useShallow } from 'zustand/shallow';
 import { ThemeManager } from '../../core/themes/theme-manager';
 import {
   type CodeTheme,
   type ThemeImportResult,
 } from '../../core/themes/types';
 import { downloadBlob } from '../../utils/download';
+import { useStore } from '../../store';
 import styles from './index.module.scss';
 
 interface ThemeSelectorProps {
@@ -14,6 +16,12 @@ interface ThemeSelectorProps {
 
 export function ThemeSelector({ onThemeChange, onClose }: ThemeSelectorProps) {
   const [themeManager] = useState(() => new ThemeManager());
+  const { doc, updateDocProperties } = useStore(
+    useShallow((state) => ({
+      doc: state.doc,
+      updateDocProperties: state.updateDocProperties,
+    })),
+  );
   const [themes, setThemes] = useState<CodeTheme[]>([]);
   const [currentTheme, setCurrentTheme] = useState<CodeTheme | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -61,6 +69,8 @@ export function ThemeSelector({ onThemeChange, onClose }: ThemeSelectorProps) {
   const handleThemeSelect = (theme: CodeTheme) => {
     themeManager.setCurrentTheme(theme.id);
     setCurrentTheme(theme);
+    // Rendered videos use the picked theme too
+    updateDocProperties({ ...doc, theme: theme.id });
     onThemeChange?.(theme);
   };
 
@@ -120,6 +130,7 @@ export function ThemeSelector({ onThemeChange, onClose }: ThemeSelectorProps) {
       if (currentTheme?.id === theme.id) {
         const defaultTheme = themeManager.getCurrentTheme();
         setCurrentTheme(defaultTheme);
+        updateDocProperties({ ...doc, theme: defaultTheme.id });
         onThemeChange?.(defaultTheme);
       }
     }
@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import clsx from 'clsx';
+import { useShallow } from 'zustand/shallow';
+import { useStore } from '../../store';
+import { createSnapshot, createSnapshotMutation } from '../../core/doc/doc';
+import {
+  type TextRange,
+  type TokenPairingHint,
+} from '../../core/transition/mutation';
+import {
+  type SourceLine,
+  toSourceOffset,
+} from '../../core/tokenize/directives';
+import { type Token } from '../../core/tokenize';
+import { removeArrayAt } from '../../utils/array';
+import styles from './index.module.scss';
+
+interface TokenPairingProps {
+  snapshotIndex: number;
+}
+
+type Side = 'left' | 'right';
+
+/** `[start, end]` token indexes, both inclusive */
+type Selection = [start: number, end: number] | null;
+
+function getTokenOffsets(tokens: Token[]) {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const token of tokens) {
+    offsets.push(offset);
+    offset += token.value.length;
+  }
+  return offsets;
+}
+
+/**
+ * The tokens are parsed from the code without directives,
+ * hints refer to the raw code of the snapshots
+ */
+function selectionToRange(
+  tokens: Token[],
+  sourceLines: SourceLine[],
+  [start, end]: [number, number],
+): TextRange {
+  const offsets = getTokenOffsets(tokens);
+  return {
+    start: toSourceOffset(sourceLines, offsets[start]),
+    end: toSourceOffset(sourceLines, offsets[end] + tokens[end].value.length),
+  };
+}
+
+function getRangeText(code: string, range: TextRange) {
+  return code.slice(range.start, range.end);
+}
+
+export function TokenPairing({ snapshotIndex }: TokenPairingProps) {
+  const { doc, updateSnapshot } = useStore(
+    useShallow((state) => ({
+      doc: state.doc,
+      updateSnapshot: state.updateSnapshot,
+    })),
+  );
+
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selections, setSelections] = useState<Record<Side, Selection>>({
+    left: null,
+    right: null,
+  });
+  const [hovered, setHovered] = useState<{ side: Side; index: number } | null>(
+    null,
+  );
+
+  const snapshot = doc.snapshots[snapshotIndex];
+  const nextSnapshot = doc.snapshots[snapshotIndex + 1];
+  const hints = snapshot.pairingHints ?? [];
+
+  // Preview the same mutation the renderer plays
+  const { left, right, mutation } = useMemo(() => {
+    if (snapshotIndex + 1 >= doc.snapshots.length) {
+      return { left: null, right: null, mutation: null };
+    }
+    const leftSnapshot = createSnapshot(doc, snapshotIndex);
+    const rightSnapshot = createSnapshot(doc, snapshotIndex + 1);
+    return {
+      left: leftSnapshot,
+      right: rightSnapshot,
+      mutation: createSnapshotMutation(
+        doc,
+        snapshotIndex,
+        leftSnapshot,
+        rightSnapshot,
+      ),
+    };
+  }, [doc, snapshotIndex]);
+
+  if (!nextSnapshot || !left || !right || !mutation) return null;
+
+  const partner = hovered
+    ? mutation.diffs.find((diff) =>
+        hovered.side === 'left'
+          ? diff.leftIndex === hovered.index
+          : diff.rightIndex === hovered.index,
+      )
+    : undefined;
+  const partnerIndex =
+    hovered?.side === 'left' ? partner?.rightIndex : partner?.leftIndex;
+
+  const updateHints = (pairingHints: TokenPairingHint[]) => {
+    updateSnapshot(snapshotIndex, {
+      ...snapshot,
+      pairingHints,
+    });
+  };
+
+  const handleTokenClick =
+    (side: Side, index: number) => (event: React.MouseEvent) => {
+      setSelections((prev) => {
+        const current = prev[side];
+        const selection: Selection =
+          event.shiftKey && current
+            ? [Math.min(current[0], index), Math.max(current[1], index)]
+            : [index, index];
+        return { ...prev, [side]: selection };
+      });
+    };
+
+  const handleAddHint = () => {
+    if (!selections.left || !selections.right) return;
+
+    updateHints([
+      ...hints,
+      {
+        left: selectionToRange(left.tokens, left.sourceLines, selections.left),
+        right: selectionToRange(
+          right.tokens,
+          right.sourceLines,
+          selections.right,
+        ),
+      },
+    ]);
+    setSelections({ left: null, right: null });
+  };
+
+  const renderTokens = (side: Side, tokens: Token[]) => {
+    const selection = selections[side];
+
+    return (
+      <pre className={styles.code}>
+        {tokens.map((token, index) => (
+          <span
+            key={index}
+            className={clsx(
+              styles.token,
+              selection &&
+                index >= selection[0] &&
+                index <= selection[1] &&
+                styles.selected,
+              hovered?.side !== side &&
+                partnerIndex === index &&
+                styles.partner,
+            )}
+            onClick={handleTokenClick(side, index)}
+            onMouseEnter={() => setHovered({ side, index })}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {token.value}
+          </span>
+        ))}
+      </pre>
+    );
+  };
+
+  return (
+    <div className={styles.tokenPairing}>
+      <button
+        type="button"
+        className={styles.toggleButton}
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        Token Pairing {isExpanded ? '▼' : '▶'}
+      </button>
+
+      {isExpanded && (
+        <div className={styles.panel}>
+          <p className={styles.hint}>
+            Click a token on the left and its partner on the right, hold Shift
+            to select a range. Hover a token to preview its current partner.
+          </p>
+
+          <div className={styles.columns}>
+            <div className={styles.column}>
+              <h4 className={styles.columnTitle}>#{snapshotIndex}</h4>
+              {renderTokens('left', left.tokens)}
+            </div>
+            <div className={styles.column}>
+              <h4 className={styles.columnTitle}>#{snapshotIndex + 1}</h4>
+              {renderTokens('right', right.tokens)}
+            </div>
+          </div>
+
+          <button
+            type="button"
+            className={styles.addButton}
+            disabled={!selections.left || !selections.right}
+            onClick={handleAddHint}
+          >
+            Pair Selected Tokens
+          </button>
+
+          {hints.length > 0 && (
+            <ul className={styles.hintList}>
+              {hints.map((hint, index) => (
+                <li key={index} className={styles.hintItem}>
+                  <code>{getRangeText(snapshot.code, hint.left)}</code>
+                  <span className={styles.arrow}>→</span>
+                  <code>{getRangeText(nextSnapshot.code, hint.right)}</code>
+                  <button
+                    type="button"
+                    className={styles.removeButton}
+                    title="remove"
+                    onClick={() => updateHints(removeArrayAt(hints, index))}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useStore } from '../../store';
 import {
   TransitionEffectType,
   type TransitionConfig,
+  type TransitionStyle,
   DEFAULT_TRANSITION_CONFIG,
 } from '../../core/transition/transition';
 import {
@@ -11,6 +12,16 @@ import {
   getEasingFunctionsByCategory,
   DEFAULT_EASING,
 } from '../../core/transition/easing';
+import {
+  DIFF_STRATEGIES,
+  DEFAULT_DIFF_STRATEGY,
+} from '../../core/transition/diff-strategies';
+import { DEFAULT_TYPING_SPEED } from '../../core/transition/typewriter';
+import {
+  StaggerMode,
+  DEFAULT_STAGGER_AMOUNT,
+  MAX_STAGGER_AMOUNT,
+} from '../../core/transition/stagger';
 import { type DocSnapshot } from '../../core/doc/raw-doc';
 import styles from './index.module.scss';
 
@@ -29,6 +40,32 @@ const EFFECT_TYPE_OPTIONS = [
   { value: TransitionEffectType.SCALE, label: 'Scale' },
   { value: TransitionEffectType.ZOOM_IN, label: 'Zoom In' },
   { value: TransitionEffectType.ZOOM_OUT, label: 'Zoom Out' },
+  { value: TransitionEffectType.TYPEWRITER, label: 'Typewriter' },
+];
+
+/**
+ * Prism types offered for type styles
+ */
+const TOKEN_TYPE_OPTIONS = [
+  'comment',
+  'keyword',
+  'string',
+  'number',
+  'boolean',
+  'function',
+  'class-name',
+  'operator',
+  'punctuation',
+  'tag',
+  'attr-name',
+];
+
+const STAGGER_MODE_OPTIONS = [
+  { value: StaggerMode.NONE, label: 'None' },
+  { value: StaggerMode.LINE, label: 'By Line' },
+  { value: StaggerMode.COLUMN, label: 'By Column' },
+  { value: StaggerMode.DISTANCE, label: 'By Distance from Edit' },
+  { value: StaggerMode.RANDOM, label: 'Random' },
 ];
 
 export function TransitionControls({
@@ -42,6 +79,7 @@ export function TransitionControls({
   );
 
   const [isExpanded, setIsExpanded] = useState(false);
+  const [newStyleType, setNewStyleType] = useState(TOKEN_TYPE_OPTIONS[0]);
 
   const currentConfig = {
     ...DEFAULT_TRANSITION_CONFIG,
@@ -76,6 +114,37 @@ export function TransitionControls({
     });
   };
 
+  const handleDiffStrategyChange = (
+    event: React.ChangeEvent<HTMLSelectElement>,
+  ) => {
+    handleConfigChange({
+      diffStrategyId: event.target.value,
+    });
+  };
+
+  const typeStyles = currentConfig.typeStyles ?? {};
+  const availableStyleTypes = TOKEN_TYPE_OPTIONS.filter(
+    (type) => !typeStyles[type],
+  );
+  const selectedStyleType = availableStyleTypes.includes(newStyleType)
+    ? newStyleType
+    : availableStyleTypes[0];
+
+  const handleTypeStyleChange = (type: string, style: TransitionStyle) => {
+    handleConfigChange({
+      typeStyles: {
+        ...typeStyles,
+        [type]: style,
+      },
+    });
+  };
+
+  const handleTypeStyleRemove = (type: string) => {
+    const rest = { ...typeStyles };
+    delete rest[type];
+    handleConfigChange({ typeStyles: rest });
+  };
+
   // const handleDurationChange =
   //   (field: keyof TransitionConfig) =>
   //   (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -144,6 +213,160 @@ export function TransitionControls({
             </label>
           </div>
 
+          <div className={styles.section}>
+            <label className={styles.label}>
+              Diff Algorithm:
+              <select
+                value={currentConfig.diffStrategyId || DEFAULT_DIFF_STRATEGY}
+                onChange={handleDiffStrategyChange}
+                className={styles.select}
+              >
+                {DIFF_STRATEGIES.map((strategy) => (
+                  <option
+                    key={strategy.id}
+                    value={strategy.id}
+                    title={strategy.description}
+                  >
+                    {strategy.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={currentConfig.structuralDiff ?? false}
+                onChange={(event) =>
+                  handleConfigChange({ structuralDiff: event.target.checked })
+                }
+              />
+              Keep syntax blocks together
+            </label>
+          </div>
+
+          <div className={styles.section}>
+            <label className={styles.label}>
+              Stagger:
+              <select
+                value={currentConfig.staggerMode || StaggerMode.NONE}
+                onChange={(event) =>
+                  handleConfigChange({
+                    staggerMode: event.target.value as StaggerMode,
+                  })
+                }
+                className={styles.select}
+              >
+                {STAGGER_MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {currentConfig.staggerMode &&
+              currentConfig.staggerMode !== StaggerMode.NONE && (
+                <label className={styles.label}>
+                  Stagger Delay:{' '}
+                  {(
+                    (currentConfig.staggerAmount ?? DEFAULT_STAGGER_AMOUNT) *
+                    100
+                  ).toFixed(0)}
+                  %
+                  <input
+                    type="range"
+                    min="0"
+                    max={MAX_STAGGER_AMOUNT}
+                    step="0.1"
+                    value={
+                      currentConfig.staggerAmount ?? DEFAULT_STAGGER_AMOUNT
+                    }
+                    onChange={handleSliderChange('staggerAmount')}
+                    className={styles.slider}
+                  />
+                </label>
+              )}
+
+            {currentConfig.staggerMode === StaggerMode.RANDOM && (
+              <label className={styles.label}>
+                Random Seed:
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={currentConfig.staggerSeed ?? 0}
+                  onChange={handleSliderChange('staggerSeed')}
+                  className={styles.select}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className={styles.section}>
+            <h4 className={styles.sectionTitle}>Token Type Styles</h4>
+
+            {Object.entries(typeStyles).map(([type, style]) => (
+              <div key={type} className={styles.typeStyleRow}>
+                <span className={styles.typeStyleName}>{type}</span>
+                <select
+                  value={style.effectType || currentConfig.effectType}
+                  onChange={(event) =>
+                    handleTypeStyleChange(type, {
+                      ...style,
+                      effectType: event.target.value as TransitionEffectType,
+                    })
+                  }
+                  className={styles.select}
+                >
+                  {EFFECT_TYPE_OPTIONS.filter(
+                    // Typing is laid out for the whole transition
+                    (option) =>
+                      option.value !== TransitionEffectType.TYPEWRITER,
+                  ).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className={styles.smallButton}
+                  onClick={() => handleTypeStyleRemove(type)}
+                  title={`Remove the style of ${type}`}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+
+            <div className={styles.typeStyleRow}>
+              <select
+                value={selectedStyleType}
+                onChange={(event) => setNewStyleType(event.target.value)}
+                className={styles.select}
+              >
+                {availableStyleTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={styles.smallButton}
+                disabled={!selectedStyleType}
+                onClick={() =>
+                  handleTypeStyleChange(selectedStyleType, {
+                    effectType: TransitionEffectType.FADE,
+                  })
+                }
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
           <div className={styles.section}>
             <h4 className={styles.sectionTitle}>Duration Controls</h4>
 
@@ -192,7 +415,8 @@ export function TransitionControls({
 
           {(currentConfig.effectType?.includes('slide') ||
             currentConfig.effectType === TransitionEffectType.SCALE ||
-            currentConfig.effectType === TransitionEffectType.FADE) && (
+            currentConfig.effectType === TransitionEffectType.FADE ||
+            currentConfig.effectType === TransitionEffectType.TYPEWRITER) && (
             <div className={styles.section}>
               <h4 className={styles.sectionTitle}>Effect Settings</h4>
 
@@ -242,6 +466,22 @@ export function TransitionControls({
                   />
                 </label>
               )}
+
+              {currentConfig.effectType === TransitionEffectType.TYPEWRITER && (
+                <label className={styles.label}>
+                  Typing Speed:{' '}
+                  {currentConfig.typingSpeed || DEFAULT_TYPING_SPEED} chars/s
+                  <input
+                    type="range"
+                    min="5"
+                    max="120"
+                    step="5"
+                    value={currentConfig.typingSpeed || DEFAULT_TYPING_SPEED}
+                    onChange={handleSliderChange('typingSpeed')}
+                    className={styles.slider}
+                  />
+                </label>
+              )}
             </div>
           )}
         </div>
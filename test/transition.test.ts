@@ -101,6 +101,7 @@ describe('transition', () => {
       ],
       left: leftTokens,
       right: rightTokens,
+      lines: [{ kind: 'modified', leftLine: 0, rightLine: 0 }],
     });
   });
 